@@ -1,10 +1,58 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Upload, FileSpreadsheet, Image as ImageIcon, CheckCircle, RotateCcw, Download, Settings, RefreshCw, AlertCircle, HelpCircle, X, ArrowRight, FileText, MousePointer2, Copy, FileDown } from 'lucide-react';
-import { parseExcelFile, autoMatchSignatures, generateFinalExcel, normalizeName } from './services/excelService';
+import { Upload, FileSpreadsheet, Image as ImageIcon, CheckCircle, RotateCcw, Download, Settings, RefreshCw, AlertCircle, HelpCircle, X, ArrowRight, FileText, MousePointer2, Copy, FileDown, CalendarCheck, FolderOpen, FileArchive } from 'lucide-react';
+import { parseExcelFile, autoMatchSignatures, autoMatchSignaturesDetailed, generateFinalExcel, PlaceholderTextOption, getNameMatchPairKey, getSignatureKey, AutoMatchOptions, FuzzyMatchSuggestion, AttendanceException, AmbiguousRowReport, MatchReconciliation, ExportProvenance, formatSeedProvenance, hasMatchLocks } from './services/excelService';
+import { buildReconciliationCsv } from './services/reconciliationReport';
+import { parseAttendanceLog, summarizeAttendanceLog } from './services/attendanceService';
 import { buildSheetPreviewModel, exportToPDF, exportToPNG, SheetPreviewModel } from './services/alternativeExportService';
-import { AppState, SignatureFile, SheetData, SignatureAssignment } from './types';
+import { AppState, SignatureFile, SheetData, SignatureAssignment, SheetColumnMapping, SignatureQualityIssue } from './types';
 import SignatureWorkspace from './components/SignatureWorkspace';
+import SheetMappingPanel from './components/SheetMappingPanel';
+import PlaceholderRulesPanel from './components/PlaceholderRulesPanel';
+import RowExclusionRulesPanel from './components/RowExclusionRulesPanel';
+import { DEFAULT_PLACEHOLDER_RULES, DEFAULT_ROW_EXCLUSION_RULES, generateRandomSeed, columnNumberToLetter } from './services/excelUtils';
+import { findTemplateSettings, saveTemplateSettings, toSheetMappings } from './services/templateStorage';
 import { buildBatchExcelZip, BatchExportProgress } from './services/batchExportService';
+import { LockScope, createLockScopes, setAssignmentsLocked } from './services/assignmentEditor';
+import { buildProjectFile, openProjectFile, PROJECT_FILE_EXTENSION } from './services/projectFileService';
+import {
+  processSignatureImage,
+  normalizeSignatureSource,
+  isHeicImage,
+  DEFAULT_TRIM_PADDING,
+  DEFAULT_INK_NORMALIZATION,
+  InkNormalization,
+  isInkNormalizationActive,
+  resolveInkNormalization,
+  ProcessedSignatureImage,
+} from './services/signatureImageService';
+import SignatureCleanupPanel from './components/SignatureCleanupPanel';
+import SignatureImportSummaryPanel from './components/SignatureImportSummaryPanel';
+import SignatureLibraryPanel from './components/SignatureLibraryPanel';
+import { checkSignatureQuality } from './services/signatureQualityService';
+import { SignatureLibraryEntry, libraryEntryToSignatureFile } from './services/signatureLibrary';
+import SignatureImportPreviewPanel from './components/SignatureImportPreviewPanel';
+import {
+  SignatureImportCandidate,
+  SignatureImportItem,
+  SignatureImportSummary,
+  SignatureFileNameRule,
+  createSignatureImportSummary,
+  readSignatureFiles,
+  readSignatureZip,
+  readSignatureDirectory,
+  resolveImportCandidates,
+  loadFileNameRule,
+  saveFileNameRule,
+  FILE_NAME_PRESETS,
+} from './services/signatureImportService';
+import {
+  AssignmentHistory,
+  createAssignmentHistory,
+  pushAssignmentHistory,
+  moveAssignmentHistory,
+  canUndoAssignments,
+  canRedoAssignments,
+} from './services/assignmentHistory';
 
 // Factory function to ensure fresh state on reset
 const getInitialState = (): AppState => ({
@@ -14,8 +62,25 @@ const getInitialState = (): AppState => ({
   sheetData: null,
   signatures: new Map(),
   assignments: new Map(),
+  nameAliases: new Map(),
+  rejectedNameMatches: new Set(),
+  sheetMappings: new Map(),
+  placeholderRules: DEFAULT_PLACEHOLDER_RULES,
+  rowExclusionRules: DEFAULT_ROW_EXCLUSION_RULES,
+  attendanceLog: null,
+  matchSeed: null,
+  matchEdited: false,
+  lockScopes: createLockScopes(),
 });
 
+// 폴더 선택 입력 (React 타입 정의에 없는 비표준 속성)
+const DIRECTORY_INPUT_ATTRIBUTES = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+/** 디코딩 전 원본 크기 상한 (휴대폰 HEIC/JPEG 사진 허용, 메모리 보호용) */
+const MAX_SIGNATURE_SOURCE_BYTES = 25 * 1024 * 1024;
+/** 정리(배경 제거·여백 자르기) 후 미리보기/내보내기에 쓰는 PNG 크기 상한 */
+const MAX_SIGNATURE_IMAGE_BYTES = 2 * 1024 * 1024;
+
 export default function App() {
   const [state, setState] = useState<AppState>(getInitialState());
   const [processing, setProcessing] = useState(false);
@@ -28,6 +93,19 @@ export default function App() {
   const [showGuide, setShowGuide] = useState(false);
   const [toast, setToast] = useState<{msg: string, type: 'success' | 'info'} | null>(null);
   const [exportFormat, setExportFormat] = useState<'excel' | 'pdf' | 'png'>('excel');
+  const [placeholderTextOption, setPlaceholderTextOption] = useState<PlaceholderTextOption>({ mode: 'keep' });
+  const [trimPadding, setTrimPadding] = useState<number | null>(DEFAULT_TRIM_PADDING);
+  const [inkNormalization, setInkNormalization] = useState<InkNormalization>(DEFAULT_INK_NORMALIZATION);
+  const [personInkNormalization, setPersonInkNormalization] = useState<Record<string, InkNormalization>>({});
+  const [signatureImportSummary, setSignatureImportSummary] = useState<SignatureImportSummary | null>(null);
+  const [pendingSignatureImport, setPendingSignatureImport] = useState<{ summary: SignatureImportSummary; items: SignatureImportItem[] } | null>(null);
+  const [fileNameRule, setFileNameRule] = useState<SignatureFileNameRule>(loadFileNameRule);
+  const [fuzzySuggestions, setFuzzySuggestions] = useState<FuzzyMatchSuggestion[]>([]);
+  const [attendanceExceptions, setAttendanceExceptions] = useState<AttendanceException[]>([]);
+  const [ambiguousRows, setAmbiguousRows] = useState<AmbiguousRowReport[]>([]);
+  const [reconciliation, setReconciliation] = useState<MatchReconciliation | null>(null);
+  const [seedInput, setSeedInput] = useState('');
+  const [assignmentHistory, setAssignmentHistory] = useState<AssignmentHistory>(createAssignmentHistory());
   const signaturesRef = useRef<Map<string, SignatureFile[]>>(new Map());
   const batchAbortRef = useRef<AbortController | null>(null);
   const objectUrlRegistryRef = useRef<Set<string>>(new Set());
@@ -35,6 +113,8 @@ export default function App() {
   // Refs to clear file inputs
   const excelInputRef = useRef<HTMLInputElement>(null);
   const sigInputRef = useRef<HTMLInputElement>(null);
+  const attendanceInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
 
   // Auto-hide toast
   useEffect(() => {
@@ -192,8 +272,37 @@ export default function App() {
         throw new Error("데이터가 없는 파일입니다. 성명 열과 데이터가 포함된 파일을 확인해주세요.");
       }
 
-      setState(prev => ({ ...prev, excelFile: file, excelBuffer: buffer, sheetData, step: 'upload' }));
-      setToast({ msg: `${file.name} 로드됨 (${sheetData.rows.length}개 행)`, type: 'success' });
+      // 같은 양식으로 저장된 헤더/성명 열 지정이 있으면 자동으로 불러온다.
+      const savedTemplate = findTemplateSettings(sheetData);
+      const sheetMappings = savedTemplate ? toSheetMappings(savedTemplate) : new Map<number, SheetColumnMapping>();
+      const placeholderRules = savedTemplate?.placeholderRules || DEFAULT_PLACEHOLDER_RULES;
+      const rowExclusionRules = savedTemplate?.rowExclusionRules || DEFAULT_ROW_EXCLUSION_RULES;
+
+      // 배치·잠금·되돌리기 기록과 보고서는 이전 통합문서의 좌표 기준이므로 파일을 바꾸면 모두 비운다.
+      setState(prev => ({
+        ...prev,
+        excelFile: file,
+        excelBuffer: buffer,
+        sheetData,
+        sheetMappings,
+        placeholderRules,
+        rowExclusionRules,
+        assignments: new Map(),
+        matchSeed: null,
+        matchEdited: false,
+        lockScopes: createLockScopes(),
+        step: 'upload',
+      }));
+      setAssignmentHistory(createAssignmentHistory());
+      setPreviewModel(null);
+      setFuzzySuggestions([]);
+      setAttendanceExceptions([]);
+      setAmbiguousRows([]);
+      setReconciliation(null);
+      setToast({
+        msg: `${file.name} 로드됨 (${sheetData.rows.length}개 행)${savedTemplate ? ' · 저장된 양식 설정 적용' : ''}`,
+        type: 'success',
+      });
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "알 수 없는 오류";
       setError(`엑셀 파일 읽기 실패: ${errorMsg}`);
@@ -203,135 +312,415 @@ export default function App() {
     }
   };
 
-  const handleSignatureUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files || files.length === 0) return;
-
-    setProcessing(true);
+  /**
+   * 서명 가져오기 후보를 검사해 서명 목록에 추가하고 결과를 summary에 기록
+   * - 파일 선택, ZIP, 폴더 가져오기가 모두 이 경로를 거친다.
+   */
+  const importSignatureCandidates = async (candidates: SignatureImportCandidate[], summary: SignatureImportSummary) => {
     const newSignatures = new Map<string, SignatureFile[]>(state.signatures);
-    let count = 0;
-    const failedFiles: string[] = [];
 
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
+    for (const { file, path, owner } of candidates) {
       let objectUrl: string | null = null;
-      // Only images
-      if (!file.type.startsWith('image/')) {
-        failedFiles.push(`${file.name} (이미지 파일이 아님)`);
-        continue;
-      }
 
-      // File size check (warning if > 2MB per image)
-      if (file.size > 2 * 1024 * 1024) {
-        failedFiles.push(`${file.name} (2MB 초과 - 압축 권장)`);
+      // 원본은 사진 크기까지 허용하고, 2MB 제한은 정리된 결과 이미지에 적용한다.
+      if (file.size > MAX_SIGNATURE_SOURCE_BYTES) {
+        summary.rejected.push({ path, reason: '25MB 초과 - 이미지 크기 줄이기 권장' });
         continue;
       }
 
       try {
-        /**
-         * 메모리 최적화:
-         * - 우선 createImageBitmap으로 크기를 읽어 브라우저 디코더 리소스를 즉시 해제한다.
-         * - fallback 경로에서는 임시 Object URL을 만들고 즉시 revoke 한다.
-         */
-        const getImageDims = async (): Promise<{ w: number; h: number }> => {
-          if ('createImageBitmap' in window) {
-            try {
-              const bitmap = await createImageBitmap(file);
-              const dims = { w: bitmap.width, h: bitmap.height };
-              bitmap.close();
-              return dims;
-            } catch {
-              // fallback으로 진행
-            }
-          }
+        // 이름: '이름_번호' 파일명 또는 사람별 폴더명 (동명이인 구분용 '이름@사번')
+        const parsedName = owner;
 
-          return await new Promise<{ w: number; h: number }>((resolve) => {
-            const tempUrl = URL.createObjectURL(file);
-            const img = new Image();
-            img.onload = () => {
-              const dims = { w: img.width, h: img.height };
-              img.src = '';
-              URL.revokeObjectURL(tempUrl);
-              resolve(dims);
-            };
-            img.onerror = () => {
-              img.src = '';
-              URL.revokeObjectURL(tempUrl);
-              resolve({ w: 100, h: 50 });
-            };
-            img.src = tempUrl;
-          });
-        };
+        if (!parsedName) {
+          summary.rejected.push({ path, reason: '이름 파싱 불가' });
+          continue;
+        }
 
-        const { w, h } = await getImageDims();
+        const signatureKey = getSignatureKey(parsedName.name, parsedName.qualifier);
+        const list: SignatureFile[] = newSignatures.get(signatureKey) || [];
+        if (list.find(s => s.variant === file.name)) {
+          summary.duplicates.push(path);
+          continue;
+        }
 
-        if (w === 100 && h === 50) {
-          failedFiles.push(`${file.name} (이미지 로드 실패)`);
+        // HEIC 변환 + EXIF 방향 적용 후 바로 선 PNG를 원본으로 삼는다.
+        let normalized: { blob: Blob; width: number; height: number };
+        try {
+          normalized = await normalizeSignatureSource(file);
+        } catch (decodeErr) {
+          console.warn(`[서명 정리] 이미지 디코딩 실패: ${file.name}`, decodeErr);
+          summary.rejected.push({ path, reason: isHeicImage(file) ? 'HEIC 변환 실패' : '이미지 로드 실패' });
           continue;
         }
 
-        // Parse name logic:
-        const fileNameNoExt = file.name.substring(0, file.name.lastIndexOf('.'));
-        const lastUnderscoreIdx = fileNameNoExt.lastIndexOf('_');
-        
-        let baseNameString = fileNameNoExt;
-        if (lastUnderscoreIdx > 0) {
-          baseNameString = fileNameNoExt.substring(0, lastUnderscoreIdx);
+        // 종이 배경을 투명하게 지우고 획 색을 맞춘 뒤 여백을 잘라낸 PNG를 미리보기/내보내기에 사용
+        // (이미 투명하고 다른 정리도 꺼져 있으면 원본 그대로)
+        let processed: ProcessedSignatureImage | null = null;
+        try {
+          const ink = resolveInkNormalization(signatureKey, personInkNormalization, inkNormalization);
+          const result = await processSignatureImage(normalized.blob, { trimPadding, ink });
+          if (result.threshold !== null || trimPadding !== null || isInkNormalizationActive(ink)) {
+            processed = result;
+          }
+        } catch (cleanupErr) {
+          console.warn(`[서명 정리] 이미지 정리 실패, 원본 사용: ${file.name}`, cleanupErr);
         }
 
-        const baseName = normalizeName(baseNameString);
-        
-        if (!baseName) {
-          failedFiles.push(`${file.name} (이름 파싱 불가)`);
+        if ((processed ? processed.blob : normalized.blob).size > MAX_SIGNATURE_IMAGE_BYTES) {
+          summary.rejected.push({ path, reason: '정리 후 2MB 초과 - 압축 권장' });
           continue;
         }
 
+        // 품질 점검은 경고만 남기고 가져오기는 계속한다.
+        let qualityIssues: SignatureQualityIssue[] = [];
+        try {
+          qualityIssues = await checkSignatureQuality(normalized.blob);
+        } catch (qualityErr) {
+          console.warn(`[서명 정리] 품질 점검 실패: ${file.name}`, qualityErr);
+        }
+
         // 실제 앱에서 표시/내보내기에 사용하는 URL만 유지
-        objectUrl = URL.createObjectURL(file);
+        objectUrl = URL.createObjectURL(normalized.blob);
         trackObjectUrl(objectUrl);
-        
+        const processedUrl = processed ? URL.createObjectURL(processed.blob) : null;
+        if (processedUrl) trackObjectUrl(processedUrl);
+
         const sigFile: SignatureFile = {
-          name: baseName,
+          name: parsedName.name,
           variant: file.name,
-          previewUrl: objectUrl,
-          width: w,
-          height: h
+          previewUrl: processedUrl ?? objectUrl,
+          width: processed ? processed.width : normalized.width,
+          height: processed ? processed.height : normalized.height,
+          ...(processed ? { sourceUrl: objectUrl } : {}),
+          ...(processed && processed.threshold !== null ? { backgroundThreshold: processed.threshold } : {}),
+          ...(qualityIssues.length > 0 ? { qualityIssues } : {}),
+          ...(parsedName.qualifier ? { qualifier: parsedName.qualifier } : {})
         };
 
-        const list: SignatureFile[] = newSignatures.get(sigFile.name) || [];
-        if (!list.find(s => s.variant === sigFile.variant)) {
-          list.push(sigFile);
-          newSignatures.set(sigFile.name, list);
-          count++;
-        } else {
-          if (objectUrl) {
-            revokeTrackedObjectUrl(objectUrl);
-            objectUrl = null;
-          }
-          failedFiles.push(`${file.name} (중복)`);
-        }
+        list.push(sigFile);
+        newSignatures.set(signatureKey, list);
+        summary.accepted.push(path);
+        if (qualityIssues.length > 0) summary.flagged.push(path);
       } catch (err) {
         console.error('Image upload error:', err);
         if (objectUrl) {
           revokeTrackedObjectUrl(objectUrl);
           objectUrl = null;
         }
-        failedFiles.push(`${file.name} (처리 실패)`);
+        summary.rejected.push({ path, reason: '처리 실패' });
       }
     }
 
     setState(prev => ({ ...prev, signatures: newSignatures }));
-    setProcessing(false);
+  };
+
+  /**
+   * 서명 가져오기 1단계: 이미지 항목을 모아 파일명 해석 미리보기를 띄운다.
+   * - 가져올 이미지가 하나도 없으면 미리보기 없이 거절 요약만 보여준다.
+   */
+  const prepareSignatureImport = async (
+    source: string,
+    collect: (summary: SignatureImportSummary) => Promise<SignatureImportItem[]> | SignatureImportItem[]
+  ) => {
+    setProcessing(true);
+    const summary = createSignatureImportSummary(source);
+    try {
+      const items = await collect(summary);
+      if (items.length === 0) {
+        setSignatureImportSummary(summary);
+        setToast({ msg: '가져올 서명 이미지가 없습니다.', type: 'info' });
+        return;
+      }
+      setPendingSignatureImport({ summary, items });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : '알 수 없는 오류';
+      setError(`서명 가져오기 실패: ${errorMsg}`);
+      console.error('[서명 가져오기] 실패:', err);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  /**
+   * 서명 가져오기 2단계: 미리보기에서 확정한 파일명 규칙으로 추가하고 결과 요약 표시
+   */
+  const handleConfirmSignatureImport = async (rule: SignatureFileNameRule) => {
+    if (!pendingSignatureImport) return;
+    const { summary, items } = pendingSignatureImport;
+    setPendingSignatureImport(null);
+    setFileNameRule(rule);
+    saveFileNameRule(rule);
+
+    setProcessing(true);
+    try {
+      await importSignatureCandidates(resolveImportCandidates(items, rule), summary);
+      setSignatureImportSummary(summary);
+
+      const skipped = summary.duplicates.length + summary.rejected.length;
+      setToast({
+        msg: skipped > 0
+          ? `${summary.accepted.length}개 추가됨 (${skipped}개 제외됨)`
+          : `${summary.accepted.length}개의 서명이 추가되었습니다.`,
+        type: summary.accepted.length > 0 ? 'success' : 'info',
+      });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : '알 수 없는 오류';
+      setError(`서명 가져오기 실패: ${errorMsg}`);
+      console.error('[서명 가져오기] 실패:', err);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleSignatureUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+
+    await prepareSignatureImport(`파일 ${files.length}개`, summary => readSignatureFiles(files, summary));
     if (sigInputRef.current) sigInputRef.current.value = '';
-    
-    const toastMsg = failedFiles.length > 0 
-      ? `${count}개 추가됨${failedFiles.length > 0 ? ` (${failedFiles.length}개 제외됨: ${failedFiles.slice(0, 2).join(', ')}${failedFiles.length > 2 ? '...' : ''})` : ''}`
-      : `${count}개의 서명이 추가되었습니다.`;
-    
-    setToast({ msg: toastMsg, type: count > 0 ? 'success' : 'info' });
   };
 
-  const runAutoMatch = () => {
+  const handleSignatureZipUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const zipFile = e.target.files?.[0];
+    if (!zipFile) return;
+
+    await prepareSignatureImport(zipFile.name, summary => readSignatureZip(zipFile, summary));
+    e.target.value = '';
+  };
+
+  const handleSignatureFolderUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+
+    const folderName = files[0].webkitRelativePath.split('/')[0] || `파일 ${files.length}개`;
+    await prepareSignatureImport(folderName, summary => readSignatureDirectory(files, summary));
+    e.target.value = '';
+  };
+
+  /**
+   * 서명 보관함에서 선택한 서명을 현재 작업에 추가
+   * - 같은 사람·같은 파일명이 이미 있으면 건너뛴다.
+   */
+  const handleLoadFromLibrary = (entries: SignatureLibraryEntry[]) => {
+    const newSignatures = new Map<string, SignatureFile[]>(state.signatures);
+    let added = 0;
+
+    for (const entry of entries) {
+      const list = newSignatures.get(entry.key) || [];
+      if (list.some(sig => sig.variant === entry.variant)) continue;
+
+      const sigFile = libraryEntryToSignatureFile(entry, blob => {
+        const url = URL.createObjectURL(blob);
+        trackObjectUrl(url);
+        return url;
+      });
+      newSignatures.set(entry.key, [...list, sigFile]);
+      added++;
+    }
+
+    setState(prev => ({ ...prev, signatures: newSignatures }));
+    const skipped = entries.length - added;
+    setToast({
+      msg: `보관함에서 ${added}개 서명을 불러왔습니다.${skipped > 0 ? ` (이미 있는 ${skipped}개 제외)` : ''}`,
+      type: added > 0 ? 'success' : 'info',
+    });
+  };
+
+  /**
+   * 서명 파일 한 개를 원본(sourceUrl)에서 다시 정리
+   * - 원본이 없는 파일(보관함이나 이전 버전 프로젝트에서 연 서명)은 현재 이미지를 원본으로 삼는다.
+   * - 배경 제거, 획 색 정규화, 여백 자르기가 모두 꺼지면 원본 이미지로 되돌린다.
+   */
+  const reprocessSignatureFile = async (
+    target: SignatureFile,
+    threshold: number | null,
+    padding: number | null,
+    ink: InkNormalization
+  ): Promise<SignatureFile> => {
+    const sourceUrl = target.sourceUrl || target.previewUrl;
+    const response = await fetch(sourceUrl);
+    const result = await processSignatureImage(await response.blob(), { threshold, trimPadding: padding, ink });
+    const { sourceUrl: _source, backgroundThreshold: _threshold, ...rest } = target;
+
+    if (threshold === null && padding === null && !isInkNormalizationActive(ink)) {
+      return { ...rest, previewUrl: sourceUrl, width: result.width, height: result.height };
+    }
+
+    const processedUrl = URL.createObjectURL(result.blob);
+    trackObjectUrl(processedUrl);
+    return {
+      ...rest,
+      previewUrl: processedUrl,
+      width: result.width,
+      height: result.height,
+      sourceUrl,
+      ...(threshold !== null ? { backgroundThreshold: threshold } : {}),
+    };
+  };
+
+  /** 정리 결과로 바꾼 뒤 더 이상 쓰지 않는 이전 정리본 URL 해제 */
+  const releaseReplacedPreview = (previous: SignatureFile, updated: SignatureFile) => {
+    const sourceUrl = previous.sourceUrl || previous.previewUrl;
+    if (previous.previewUrl !== sourceUrl && previous.previewUrl !== updated.previewUrl) {
+      revokeTrackedObjectUrl(previous.previewUrl);
+    }
+  };
+
+  /**
+   * 서명 파일별 배경 제거 임계값 변경 (threshold가 null이면 배경 제거 해제)
+   */
+  const handleBackgroundThresholdChange = async (signatureKey: string, variant: string, threshold: number | null) => {
+    const target = state.signatures.get(signatureKey)?.find(sig => sig.variant === variant);
+    if (!target) return;
+
+    setProcessing(true);
+    try {
+      const ink = resolveInkNormalization(signatureKey, personInkNormalization, inkNormalization);
+      const updated = await reprocessSignatureFile(target, threshold, trimPadding, ink);
+      releaseReplacedPreview(target, updated);
+
+      setState(prev => {
+        const signatures = new Map(prev.signatures);
+        const list = (signatures.get(signatureKey) || []).map(sig => sig.variant === variant ? updated : sig);
+        signatures.set(signatureKey, list);
+        return { ...prev, signatures };
+      });
+    } catch (err) {
+      console.error('[서명 정리] 배경 제거 실패:', err);
+      setError(`서명 배경 정리 실패: ${variant}`);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  /**
+   * 올린 서명을 원본에서 다시 정리 (정리 설정이 바뀐 경우)
+   * - only가 있으면 해당 서명 키만 다시 처리한다.
+   */
+  const reprocessSignatures = async (settings: {
+    padding: number | null;
+    inkFor: (signatureKey: string) => InkNormalization;
+    only?: (signatureKey: string) => boolean;
+  }) => {
+    if (state.signatures.size === 0) return;
+
+    setProcessing(true);
+    const signatures = new Map<string, SignatureFile[]>();
+    const failed: string[] = [];
+    for (const [signatureKey, list] of state.signatures) {
+      if (settings.only && !settings.only(signatureKey)) {
+        signatures.set(signatureKey, list);
+        continue;
+      }
+
+      const updatedList: SignatureFile[] = [];
+      for (const sig of list) {
+        try {
+          const updated = await reprocessSignatureFile(sig, sig.backgroundThreshold ?? null, settings.padding, settings.inkFor(signatureKey));
+          releaseReplacedPreview(sig, updated);
+          updatedList.push(updated);
+        } catch (err) {
+          console.error('[서명 정리] 다시 처리 실패:', err);
+          failed.push(sig.variant);
+          updatedList.push(sig);
+        }
+      }
+      signatures.set(signatureKey, updatedList);
+    }
+
+    setState(prev => ({ ...prev, signatures }));
+    setProcessing(false);
+    if (failed.length > 0) {
+      setError(`서명 정리 실패: ${failed.slice(0, 3).join(', ')}${failed.length > 3 ? '...' : ''}`);
+    }
+  };
+
+  /**
+   * 여백 자르기 설정 변경 (null이면 자르지 않음)
+   * - 이미 올린 서명도 모두 원본에서 다시 잘라 내보내기 크기 계산이 같은 기준을 따르게 한다.
+   */
+  const handleTrimPaddingChange = async (padding: number | null) => {
+    setTrimPadding(padding);
+    await reprocessSignatures({
+      padding,
+      inkFor: signatureKey => resolveInkNormalization(signatureKey, personInkNormalization, inkNormalization),
+    });
+  };
+
+  /**
+   * 전체 획 색/대비 설정 변경 (개인별 설정이 있는 사람은 제외)
+   */
+  const handleInkNormalizationChange = async (ink: InkNormalization) => {
+    setInkNormalization(ink);
+    await reprocessSignatures({
+      padding: trimPadding,
+      inkFor: () => ink,
+      only: signatureKey => !personInkNormalization[signatureKey],
+    });
+  };
+
+  /**
+   * 개인별 획 색/대비 설정 변경 (null이면 전체 설정을 따른다)
+   */
+  const handlePersonInkNormalizationChange = async (signatureKey: string, ink: InkNormalization | null) => {
+    const { [signatureKey]: _previous, ...others } = personInkNormalization;
+    setPersonInkNormalization(ink ? { ...others, [signatureKey]: ink } : others);
+    await reprocessSignatures({
+      padding: trimPadding,
+      inkFor: () => ink || inkNormalization,
+      only: key => key === signatureKey,
+    });
+  };
+
+  /**
+   * 현재 상태 기반 매칭 옵션 구성
+   * - 단일 매칭/재시도/일괄 생성이 모두 같은 설정으로 동작하도록 한 곳에서 만든다.
+   */
+  const buildMatchOptions = (overrides: Partial<AutoMatchOptions> = {}): AutoMatchOptions => ({
+    variationStrength,
+    nameAliases: state.nameAliases,
+    rejectedNameMatches: state.rejectedNameMatches,
+    sheetMappings: state.sheetMappings,
+    placeholderRules: state.placeholderRules,
+    rowExclusionRules: state.rowExclusionRules,
+    attendanceLog: state.attendanceLog,
+    lockedAssignments: state.assignments,
+    lockScopes: state.lockScopes,
+    ...overrides,
+  });
+
+  /**
+   * 출석 기록(CSV/XLSX) 업로드
+   * - 지정되면 날짜 헤더 열의 placeholder는 해당 날짜 출석자에게만 서명된다.
+   */
+  const handleAttendanceUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setProcessing(true);
+      setError(null);
+      const attendanceLog = await parseAttendanceLog(file);
+      const summary = summarizeAttendanceLog(attendanceLog);
+      setState(prev => ({ ...prev, attendanceLog }));
+      setToast({ msg: `출석 기록 ${summary.recordCount}건 로드됨 (${summary.personCount}명)`, type: 'success' });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : '알 수 없는 오류';
+      setError(`출석 기록 읽기 실패: ${errorMsg}`);
+      console.error('Attendance upload error:', err);
+    } finally {
+      setProcessing(false);
+      if (attendanceInputRef.current) attendanceInputRef.current.value = '';
+    }
+  };
+
+  const handleClearAttendanceLog = () => {
+    setState(prev => ({ ...prev, attendanceLog: null }));
+    setAttendanceExceptions([]);
+  };
+
+  const runAutoMatch = (overrides: Partial<AutoMatchOptions> = {}, historyLabel: string = '자동 매칭') => {
     if (!state.sheetData) {
       setError("엑셀 파일이 없습니다.");
       return;
@@ -349,8 +738,34 @@ export default function App() {
           setProcessing(false);
           return;
         }
-        const assignments = autoMatchSignatures(state.sheetData, state.signatures, { variationStrength });
-        setState(prev => ({ ...prev, assignments, step: 'preview' }));
+        // 시드를 직접 입력하지 않으면 매 실행마다 새 시드를 뽑아 내보내기에 기록한다.
+        const seed = overrides.seed || seedInput.trim() || generateRandomSeed();
+        const matchOptions = buildMatchOptions({ ...overrides, seed });
+        // 잠겨서 유지된 배치는 이 시드로 뽑은 것이 아니므로 수동 편집으로 기록한다.
+        const matchEdited = hasMatchLocks(matchOptions);
+        const {
+          assignments,
+          fuzzySuggestions: suggestions,
+          attendanceExceptions: exceptions,
+          ambiguousRows: ambiguous,
+          reconciliation: matchReconciliation,
+        } = autoMatchSignaturesDetailed(
+          state.sheetData,
+          state.signatures,
+          matchOptions
+        );
+        setState(prev => ({ ...prev, assignments, matchSeed: seed, matchEdited, step: 'preview' }));
+        setAssignmentHistory(prev => pushAssignmentHistory(prev, {
+          label: `${historyLabel} (시드 ${seed})`,
+          assignments,
+          matchSeed: seed,
+          matchEdited,
+          lockScopes: state.lockScopes,
+        }));
+        setFuzzySuggestions(suggestions);
+        setAttendanceExceptions(exceptions);
+        setAmbiguousRows(ambiguous);
+        setReconciliation(matchReconciliation);
         setProcessing(false);
         
         if (assignments.size === 0) {
@@ -358,11 +773,323 @@ export default function App() {
           setToast({ msg: '⚠️ 매칭 실패', type: 'info' });
         } else {
           const signatureCount = new Set(Array.from(assignments.values()).map(a => a.signatureBaseName)).size;
-          setToast({ msg: `✅ ${assignments.size}개 위치에 ${signatureCount}명의 서명이 배치되었습니다`, type: 'success' });
+          const pendingParts = [
+            suggestions.length > 0 ? `이름 확인 필요 ${suggestions.length}건` : '',
+            ambiguous.length > 0 ? `동명이인 확인 ${ambiguous.length}건` : '',
+          ].filter(Boolean);
+          const pendingMsg = pendingParts.length > 0 ? ` (${pendingParts.join(', ')})` : '';
+          setToast({ msg: `✅ ${assignments.size}개 위치에 ${signatureCount}명의 서명이 배치되었습니다${pendingMsg}`, type: 'success' });
         }
     }, 100);
   };
 
+  /**
+   * 현재 작업을 프로젝트 파일(.ssproj)로 저장
+   */
+  const handleSaveProject = async () => {
+    if (!state.excelFile || !state.excelBuffer) {
+      setError("저장할 엑셀 파일이 없습니다.");
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      const blob = await buildProjectFile({
+        excelFileName: state.excelFile.name,
+        excelBuffer: state.excelBuffer,
+        signatures: state.signatures,
+        assignments: state.assignments,
+        variationStrength,
+        matchSeed: state.matchSeed,
+        sheetMappings: state.sheetMappings,
+        placeholderRules: state.placeholderRules,
+        rowExclusionRules: state.rowExclusionRules,
+        nameAliases: state.nameAliases,
+        rejectedNameMatches: state.rejectedNameMatches,
+        attendanceLog: state.attendanceLog,
+        matchEdited: state.matchEdited,
+        lockScopes: state.lockScopes,
+        placeholderText: placeholderTextOption,
+        trimPadding,
+        inkNormalization,
+        personInkNormalization,
+      });
+
+      const url = URL.createObjectURL(blob);
+      trackObjectUrl(url);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${state.excelFile.name.replace(/\.xlsx$/i, '')}${PROJECT_FILE_EXTENSION}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      revokeTrackedObjectUrl(url);
+      setToast({ msg: `💾 프로젝트를 저장했습니다 (${(blob.size / 1024).toFixed(1)}KB)`, type: 'success' });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : '알 수 없는 오류';
+      setError(`프로젝트 저장 실패: ${errorMsg}`);
+      console.error('Project save error:', err);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  /**
+   * 프로젝트 파일(.ssproj)을 열어 저장 당시 상태로 복원
+   * - 배치 결과가 있으면 바로 워크스페이스로 이동해 이어서 편집/재내보내기할 수 있다.
+   */
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (state.excelFile && !window.confirm("현재 작업을 닫고 프로젝트를 여시겠습니까?\n저장하지 않은 변경 사항은 사라집니다.")) {
+      if (projectInputRef.current) projectInputRef.current.value = '';
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      setError(null);
+      const project = await openProjectFile(file, (blob) => {
+        const url = URL.createObjectURL(blob);
+        trackObjectUrl(url);
+        return url;
+      });
+
+      cleanupBlobUrls(state.signatures);
+      const excelFile = new File([project.excelBuffer], project.excelFileName, {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      });
+
+      setState({
+        step: project.assignments.size > 0 ? 'preview' : 'upload',
+        excelFile,
+        excelBuffer: project.excelBuffer,
+        sheetData: project.sheetData,
+        signatures: project.signatures,
+        assignments: project.assignments,
+        nameAliases: project.nameAliases,
+        rejectedNameMatches: project.rejectedNameMatches,
+        sheetMappings: project.sheetMappings,
+        placeholderRules: project.placeholderRules,
+        rowExclusionRules: project.rowExclusionRules,
+        attendanceLog: project.attendanceLog,
+        matchSeed: project.matchSeed,
+        matchEdited: project.matchEdited,
+        lockScopes: project.lockScopes,
+      });
+      setVariationStrength(project.variationStrength);
+      setPlaceholderTextOption(project.placeholderText);
+      setTrimPadding(project.trimPadding);
+      setInkNormalization(project.inkNormalization);
+      setPersonInkNormalization(project.personInkNormalization);
+      setAssignmentHistory(createAssignmentHistory({
+        label: '프로젝트 열기',
+        assignments: project.assignments,
+        matchSeed: project.matchSeed,
+        matchEdited: project.matchEdited,
+        lockScopes: project.lockScopes,
+      }));
+      setPreviewModel(null);
+      setFuzzySuggestions([]);
+      setAttendanceExceptions([]);
+      setAmbiguousRows([]);
+      setReconciliation(null);
+      setSeedInput('');
+      setToast({ msg: `📂 ${file.name} 프로젝트를 열었습니다 (배치 ${project.assignments.size}개)`, type: 'success' });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : '알 수 없는 오류';
+      setError(`프로젝트 열기 실패: ${errorMsg}`);
+      console.error('Project open error:', err);
+    } finally {
+      setProcessing(false);
+      if (projectInputRef.current) projectInputRef.current.value = '';
+    }
+  };
+
+  /**
+   * Live Preview 셀 단위 수동 편집 반영 (null이면 해당 칸 서명 삭제)
+   */
+  const handleAssignmentChange = (key: string, assignment: SignatureAssignment | null) => {
+    const previous = state.assignments.get(key);
+    const target = assignment || previous;
+    if (!target) return;
+
+    const assignments = new Map(state.assignments);
+    if (assignment) {
+      assignments.set(key, assignment);
+    } else {
+      assignments.delete(key);
+    }
+
+    const address = `${columnNumberToLetter(target.col)}${target.row}`;
+    const action = !assignment ? '삭제' : previous ? '수정' : '추가';
+    setState(prev => ({ ...prev, assignments, matchEdited: true }));
+    setAssignmentHistory(prev => pushAssignmentHistory(prev, {
+      label: `${address} 서명 ${action}`,
+      assignments,
+      matchSeed: state.matchSeed,
+      matchEdited: true,
+      lockScopes: state.lockScopes,
+      ...(action === '수정' ? { mergeKey: `edit:${key}` } : {}),
+    }));
+  };
+
+  /**
+   * 칸/행/사람 단위 잠금 전환 (잠긴 배치는 재매칭·일괄 생성에서 유지)
+   */
+  const handleLockChange = (key: string, scope: LockScope, locked: boolean) => {
+    const target = state.assignments.get(key);
+    if (!target) return;
+
+    const { assignments, lockScopes, changedCount } = setAssignmentsLocked(state.assignments, target, scope, locked, state.lockScopes);
+    const scopesChanged = lockScopes.rows.size !== state.lockScopes.rows.size
+      || lockScopes.persons.size !== state.lockScopes.persons.size;
+    if (changedCount === 0 && !scopesChanged) return;
+
+    const scopeLabel = scope === 'cell'
+      ? `${columnNumberToLetter(target.col)}${target.row}`
+      : scope === 'row' ? `${target.row}행` : target.signatureBaseName;
+    setState(prev => ({ ...prev, assignments, lockScopes }));
+    setAssignmentHistory(prev => pushAssignmentHistory(prev, {
+      label: `${scopeLabel} ${locked ? '잠금' : '잠금 해제'} (${changedCount}칸)`,
+      assignments,
+      matchSeed: state.matchSeed,
+      matchEdited: state.matchEdited,
+      lockScopes,
+    }));
+  };
+
+  /**
+   * 배치된 서명 전체 지우기 (실행 취소 가능)
+   */
+  const handleClearAssignments = () => {
+    if (state.assignments.size === 0) return;
+    const assignments = new Map<string, SignatureAssignment>();
+    const lockScopes = createLockScopes();
+    setState(prev => ({ ...prev, assignments, lockScopes }));
+    setAssignmentHistory(prev => pushAssignmentHistory(prev, {
+      label: `전체 서명 지우기 (${state.assignments.size}개)`,
+      assignments,
+      matchSeed: state.matchSeed,
+      matchEdited: true,
+      lockScopes,
+    }));
+  };
+
+  /**
+   * 배치 이력의 특정 시점으로 이동 (실행 취소/다시 실행/목록 클릭 공용)
+   */
+  const jumpToAssignmentHistory = (index: number) => {
+    const next = moveAssignmentHistory(assignmentHistory, index);
+    if (next === assignmentHistory) return;
+    const entry = next.entries[next.index];
+    setAssignmentHistory(next);
+    setState(prev => ({
+      ...prev,
+      assignments: entry.assignments,
+      matchSeed: entry.matchSeed,
+      matchEdited: entry.matchEdited,
+      lockScopes: entry.lockScopes,
+    }));
+  };
+
+  const handleUndoAssignments = () => {
+    if (canUndoAssignments(assignmentHistory)) jumpToAssignmentHistory(assignmentHistory.index - 1);
+  };
+
+  const handleRedoAssignments = () => {
+    if (canRedoAssignments(assignmentHistory)) jumpToAssignmentHistory(assignmentHistory.index + 1);
+  };
+
+  /**
+   * 워크스페이스 단축키: Ctrl/Cmd+Z 실행 취소, Ctrl/Cmd+Shift+Z 또는 Ctrl+Y 다시 실행
+   * - 입력 칸에서는 브라우저 기본 텍스트 실행 취소를 방해하지 않는다.
+   */
+  useEffect(() => {
+    if (state.step !== 'preview') return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (!(e.ctrlKey || e.metaKey) || processing) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndoAssignments();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedoAssignments();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [state.step, assignmentHistory, processing]);
+
+  /**
+   * 매칭 대사 결과 CSV 다운로드
+   */
+  const handleDownloadReconciliation = () => {
+    if (!reconciliation) return;
+
+    const blob = new Blob([buildReconciliationCsv(reconciliation)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    trackObjectUrl(url);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `매칭결과_${(state.excelFile?.name || 'output.xlsx').replace(/\.xlsx$/i, '')}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    revokeTrackedObjectUrl(url);
+  };
+
+  /**
+   * 저신뢰도 이름 후보 확인/거절 후 즉시 재매칭
+   * - 현재 배치의 시드를 그대로 써서 후보 하나 때문에 전체 배치가 새로 뽑히지 않게 한다.
+   */
+  const handleAcceptNameSuggestion = (sheetName: string, signatureBaseName: string) => {
+    const nameAliases = new Map(state.nameAliases);
+    nameAliases.set(sheetName, signatureBaseName);
+    setState(prev => ({ ...prev, nameAliases }));
+    runAutoMatch({ nameAliases, seed: state.matchSeed || undefined }, `이름 확인: ${sheetName} → ${signatureBaseName}`);
+  };
+
+  const handleRejectNameSuggestion = (sheetName: string, signatureBaseName: string) => {
+    const rejectedNameMatches = new Set(state.rejectedNameMatches);
+    rejectedNameMatches.add(getNameMatchPairKey(sheetName, signatureBaseName));
+    setState(prev => ({ ...prev, rejectedNameMatches }));
+    runAutoMatch({ rejectedNameMatches, seed: state.matchSeed || undefined }, `후보 제외: ${sheetName} ≠ ${signatureBaseName}`);
+  };
+
+  /**
+   * 시트별 헤더/성명 열 수동 지정 (null이면 자동 탐지로 복귀)
+   */
+  const handleSheetMappingChange = (sheetIndex: number, mapping: SheetColumnMapping | null) => {
+    setState(prev => {
+      const sheetMappings = new Map(prev.sheetMappings);
+      if (mapping) {
+        sheetMappings.set(sheetIndex, mapping);
+      } else {
+        sheetMappings.delete(sheetIndex);
+      }
+      return { ...prev, sheetMappings };
+    });
+  };
+
+  const handleSaveSheetMappings = () => {
+    if (!state.sheetData) return;
+
+    try {
+      saveTemplateSettings(state.sheetData, state.sheetMappings, state.placeholderRules, state.rowExclusionRules);
+      setToast({ msg: '✅ 양식 설정이 저장되었습니다. 같은 양식을 다시 올리면 자동 적용됩니다.', type: 'success' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '양식 설정 저장 실패');
+    }
+  };
+
   const handleExport = async (isRetry: boolean = false) => {
     if (!state.excelBuffer || !state.sheetData) return;
     
@@ -385,16 +1112,31 @@ export default function App() {
 
     try {
       let assignmentsToUse = state.assignments;
+      let seedToUse = state.matchSeed;
+      let editedToUse = state.matchEdited;
       if (isRetry && state.sheetData) {
-        assignmentsToUse = autoMatchSignatures(state.sheetData, state.signatures, { variationStrength });
-        setState(prev => ({ ...prev, assignments: assignmentsToUse }));
+        seedToUse = generateRandomSeed();
+        const matchOptions = buildMatchOptions({ seed: seedToUse });
+        editedToUse = hasMatchLocks(matchOptions);
+        assignmentsToUse = autoMatchSignatures(state.sheetData, state.signatures, matchOptions);
+        setState(prev => ({ ...prev, assignments: assignmentsToUse, matchSeed: seedToUse, matchEdited: editedToUse }));
+        setAssignmentHistory(prev => pushAssignmentHistory(prev, {
+          label: `재시도 매칭 (시드 ${seedToUse})`,
+          assignments: assignmentsToUse,
+          matchSeed: seedToUse,
+          matchEdited: editedToUse,
+          lockScopes: state.lockScopes,
+        }));
       }
+      // 시드 실행 뒤 손으로 바꾼 배치가 있으면 시드 옆에 수동 편집 여부를 함께 기록한다.
+      const provenance: ExportProvenance = seedToUse ? { seed: seedToUse, edited: editedToUse } : {};
 
       console.log(`========== [내보내기 시작] ==========`);
       console.log(`형식: ${exportFormat.toUpperCase()}`);
       console.log(`원본 버퍼 크기: ${state.excelBuffer.byteLength} bytes`);
       console.log(`서명 배치 수: ${assignmentsToUse.size}`);
       console.log(`업로드된 서명: ${state.signatures.size}명`);
+      console.log(`재현 시드: ${seedToUse ? formatSeedProvenance(provenance) : '(없음)'}`);
       
       // Extract HH:MM:SS from ISO timestamp (format: "2024-01-01T14:30:25.123Z")
       // slice(11, 19) extracts the time portion, then replace colons for filename safety
@@ -406,7 +1148,7 @@ export default function App() {
       if (exportFormat === 'pdf') {
         // PDF 내보내기
         const filename = `서명완료_${timestamp}_${baseFilename}.pdf`;
-        await exportToPDF(state.excelBuffer, assignmentsToUse, state.signatures, filename);
+        await exportToPDF(state.excelBuffer, assignmentsToUse, state.signatures, filename, provenance);
         
         const elapsed = performance.now() - startTime;
         console.log(`========== [내보내기 결과] ==========`);
@@ -418,7 +1160,8 @@ export default function App() {
         setError(null);
       } else if (exportFormat === 'png') {
         // PNG 내보내기
-        const filename = `서명완료_${timestamp}_${baseFilename}.png`;
+        // PNG는 문서 속성이 없으므로 파일명에 시드를 남긴다.
+        const filename = `서명완료_${timestamp}_${baseFilename}${seedToUse ? `_seed-${seedToUse}${editedToUse ? '-edited' : ''}` : ''}.png`;
         await exportToPNG(state.excelBuffer, assignmentsToUse, state.signatures, filename);
         
         const elapsed = performance.now() - startTime;
@@ -431,7 +1174,13 @@ export default function App() {
         setError(null);
       } else {
         // Excel 내보내기 (기본)
-        const blob = await generateFinalExcel(state.excelBuffer, assignmentsToUse, state.signatures);
+        const blob = await generateFinalExcel(
+          state.excelBuffer,
+          assignmentsToUse,
+          state.signatures,
+          provenance,
+          { placeholderText: placeholderTextOption }
+        );
         
         const elapsed = performance.now() - startTime;
         console.log(`========== [내보내기 결과] ==========`);
@@ -530,6 +1279,9 @@ export default function App() {
         sourceFileName: state.excelFile.name,
         count: total,
         variationStrength,
+        matchOptions: buildMatchOptions(),
+        excelOptions: { placeholderText: placeholderTextOption },
+        seed: seedInput.trim() || undefined,
         onProgress: setBatchProgress,
         signal: abortController.signal,
       });
@@ -576,6 +1328,7 @@ export default function App() {
     signatures.forEach(list => {
       list.forEach(s => {
         revokeTrackedObjectUrl(s.previewUrl);
+        if (s.sourceUrl) revokeTrackedObjectUrl(s.sourceUrl);
       });
     });
   };
@@ -599,18 +1352,31 @@ export default function App() {
     revokeAllTrackedObjectUrls();
 
     setState(getInitialState());
+    setAssignmentHistory(createAssignmentHistory());
     setPreviewModel(null);
     setPreviewLoading(false);
     setBatchProgress(null);
     setProcessing(false);
     setVariationStrength(70);
+    setTrimPadding(DEFAULT_TRIM_PADDING);
+    setInkNormalization(DEFAULT_INK_NORMALIZATION);
+    setPersonInkNormalization({});
+    setPlaceholderTextOption({ mode: 'keep' });
     setBatchCount(5);
     setExportFormat('excel');
+    setFuzzySuggestions([]);
+    setAttendanceExceptions([]);
+    setAmbiguousRows([]);
+    setReconciliation(null);
+    setSeedInput('');
+    setSignatureImportSummary(null);
+    setPendingSignatureImport(null);
     setError(null);
     setToast({ msg: '새 파일 작업을 시작할 수 있도록 초기화되었습니다.', type: 'info' });
 
     if (excelInputRef.current) excelInputRef.current.value = '';
     if (sigInputRef.current) sigInputRef.current.value = '';
+    if (attendanceInputRef.current) attendanceInputRef.current.value = '';
   };
 
   const handleReset = () => {
@@ -667,7 +1433,7 @@ export default function App() {
             <ImageIcon size={48} />
           </div>
           <h3 className="text-xl font-bold text-gray-800">2. 서명 이미지 업로드</h3>
-          <p className="text-gray-500 text-sm">모든 수기 서명 이미지 파일을 업로드하세요 (예: 홍길동_1.png).</p>
+          <p className="text-gray-500 text-sm">모든 수기 서명 이미지 파일을 업로드하세요 (예: 홍길동_1.png). ZIP이나 폴더는 사람별 폴더(홍길동/1.png)도 인식하며, 파일명 규칙은 가져오기 전에 확인·변경할 수 있습니다.</p>
           
           <label className="cursor-pointer bg-gray-900 text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors w-full">
             <span className="flex items-center justify-center gap-2">
@@ -678,12 +1444,41 @@ export default function App() {
               key={`sig-input-${state.step}`} // Force reset input when step changes
               ref={sigInputRef}
               type="file" 
-              accept="image/*" 
+              accept="image/*,.heic,.heif" 
               multiple 
               className="hidden" 
               onChange={handleSignatureUpload} 
             />
           </label>
+
+          <div className="grid grid-cols-2 gap-2 w-full">
+            <label className={`cursor-pointer px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 flex items-center justify-center gap-2 ${processing ? 'opacity-50 pointer-events-none' : ''}`}>
+              <FileArchive size={16} /> ZIP 가져오기
+              <input
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={handleSignatureZipUpload}
+              />
+            </label>
+            <label className={`cursor-pointer px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 flex items-center justify-center gap-2 ${processing ? 'opacity-50 pointer-events-none' : ''}`}>
+              <FolderOpen size={16} /> 폴더 가져오기
+              <input
+                type="file"
+                multiple
+                className="hidden"
+                onChange={handleSignatureFolderUpload}
+                {...DIRECTORY_INPUT_ATTRIBUTES}
+              />
+            </label>
+          </div>
+
+          {signatureImportSummary && (
+            <SignatureImportSummaryPanel
+              summary={signatureImportSummary}
+              onClose={() => setSignatureImportSummary(null)}
+            />
+          )}
           
           {state.signatures.size > 0 && (
             <div className="flex items-center gap-2 text-green-600 text-sm font-medium">
@@ -694,9 +1489,112 @@ export default function App() {
         </div>
       </div>
 
+      <div className="md:col-span-2">
+        <SignatureLibraryPanel
+          signatures={state.signatures}
+          processing={processing}
+          onLoad={handleLoadFromLibrary}
+          onNotify={(msg) => setToast({ msg, type: 'success' })}
+          onError={setError}
+        />
+      </div>
+
+      {state.signatures.size > 0 && (
+        <div className="md:col-span-2">
+          <SignatureCleanupPanel
+            signatures={state.signatures}
+            processing={processing}
+            trimPadding={trimPadding}
+            inkNormalization={inkNormalization}
+            personInkNormalization={personInkNormalization}
+            onThresholdChange={handleBackgroundThresholdChange}
+            onTrimPaddingChange={handleTrimPaddingChange}
+            onInkNormalizationChange={handleInkNormalizationChange}
+            onPersonInkNormalizationChange={handlePersonInkNormalizationChange}
+          />
+        </div>
+      )}
+
+      {/* Attendance Log Card (optional) */}
+      <div className={`md:col-span-2 bg-white p-6 rounded-2xl shadow-lg border-2 ${state.attendanceLog ? 'border-green-500' : 'border-gray-100'}`}>
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <div className={`p-3 rounded-full self-start ${state.attendanceLog ? 'bg-green-100 text-green-600' : 'bg-amber-50 text-amber-600'}`}>
+            <CalendarCheck size={28} />
+          </div>
+          <div className="flex-1">
+            <h3 className="text-lg font-bold text-gray-800">출석 기록 연동 (선택)</h3>
+            <p className="text-gray-500 text-sm">성명(또는 사번)과 날짜가 있는 CSV/XLSX를 올리면, 날짜 열에는 출석한 사람만 서명합니다.</p>
+            {state.attendanceLog && (() => {
+              const summary = summarizeAttendanceLog(state.attendanceLog);
+              return (
+                <p className="text-green-600 text-sm font-medium mt-1">
+                  {state.attendanceLog.fileName} · {summary.recordCount}건 / {summary.personCount}명 ({summary.firstDate} ~ {summary.lastDate})
+                </p>
+              );
+            })()}
+          </div>
+          <div className="flex gap-2">
+            {state.attendanceLog && (
+              <button
+                onClick={handleClearAttendanceLog}
+                disabled={processing}
+                className="px-4 py-2.5 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+              >
+                해제
+              </button>
+            )}
+            <label className="cursor-pointer bg-gray-900 text-white px-5 py-2.5 rounded-lg hover:bg-gray-800 transition-colors text-sm">
+              <span className="flex items-center justify-center gap-2">
+                <Upload size={16} />
+                {state.attendanceLog ? '기록 변경' : '출석 기록 선택'}
+              </span>
+              <input
+                ref={attendanceInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,.xlsx"
+                className="hidden"
+                onChange={handleAttendanceUpload}
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {state.sheetData && (
+        <div className="md:col-span-2">
+          <SheetMappingPanel
+            sheetData={state.sheetData}
+            sheetMappings={state.sheetMappings}
+            processing={processing}
+            onMappingChange={handleSheetMappingChange}
+            onSaveMappings={handleSaveSheetMappings}
+          />
+        </div>
+      )}
+
+      {state.sheetData && (
+        <div className="md:col-span-2">
+          <PlaceholderRulesPanel
+            rules={state.placeholderRules}
+            processing={processing}
+            onRulesChange={(placeholderRules) => setState(prev => ({ ...prev, placeholderRules }))}
+          />
+        </div>
+      )}
+
+      {state.sheetData && (
+        <div className="md:col-span-2">
+          <RowExclusionRulesPanel
+            rules={state.rowExclusionRules}
+            processing={processing}
+            onRulesChange={(rowExclusionRules) => setState(prev => ({ ...prev, rowExclusionRules }))}
+          />
+        </div>
+      )}
+
       <div className="md:col-span-2 flex justify-center mt-4 pb-10">
         <button 
-          onClick={runAutoMatch}
+          onClick={() => runAutoMatch()}
           disabled={!state.excelFile || state.signatures.size === 0 || processing}
           className="bg-indigo-600 text-white px-10 py-4 rounded-xl text-lg font-bold shadow-xl hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-3 transition-all"
         >
@@ -714,6 +1612,15 @@ export default function App() {
       <SignatureWorkspace
         previewLoading={previewLoading}
         previewModel={previewModel}
+        assignments={state.assignments}
+        signatures={state.signatures}
+        onAssignmentChange={handleAssignmentChange}
+        onLockChange={handleLockChange}
+        assignmentHistory={assignmentHistory}
+        onUndoAssignments={handleUndoAssignments}
+        onRedoAssignments={handleRedoAssignments}
+        onJumpToHistory={jumpToAssignmentHistory}
+        onClearAssignments={handleClearAssignments}
         processing={processing}
         exportFormat={exportFormat}
         variationStrength={variationStrength}
@@ -722,7 +1629,9 @@ export default function App() {
         onVariationStrengthChange={setVariationStrength}
         onBatchCountChange={(value) => setBatchCount(Math.max(1, Math.min(50, value || 1)))}
         onExportFormatChange={setExportFormat}
-        onAutoMatch={runAutoMatch}
+        placeholderTextOption={placeholderTextOption}
+        onPlaceholderTextOptionChange={setPlaceholderTextOption}
+        onAutoMatch={() => runAutoMatch({}, '재매칭')}
         onSingleExport={() => handleExport(false)}
         onBatchZipExport={handleBatchZipExport}
         onCancelBatchExport={handleCancelBatchExport}
@@ -730,6 +1639,18 @@ export default function App() {
         onStartOver={handleReset}
         assignmentCount={state.assignments.size}
         rowCount={state.sheetData.rows.length}
+        fuzzySuggestions={fuzzySuggestions}
+        attendanceExceptions={attendanceExceptions}
+        ambiguousRows={ambiguousRows}
+        reconciliation={reconciliation}
+        matchSeed={state.matchSeed}
+        matchEdited={state.matchEdited}
+        seedInput={seedInput}
+        onSeedInputChange={setSeedInput}
+        onDownloadReconciliation={handleDownloadReconciliation}
+        onSaveProject={handleSaveProject}
+        onAcceptNameSuggestion={handleAcceptNameSuggestion}
+        onRejectNameSuggestion={handleRejectNameSuggestion}
       />
     );
   };
@@ -792,6 +1713,17 @@ export default function App() {
             </h1>
           </div>
           <div className="flex items-center gap-4">
+            <label className={`text-gray-600 hover:text-indigo-600 font-medium text-sm flex items-center gap-1.5 transition-colors ${processing ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+              <FolderOpen size={18} />
+              프로젝트 열기
+              <input
+                ref={projectInputRef}
+                type="file"
+                accept={PROJECT_FILE_EXTENSION}
+                className="hidden"
+                onChange={handleOpenProject}
+              />
+            </label>
             <button 
               onClick={() => setShowGuide(true)}
               className="text-gray-600 hover:text-indigo-600 font-medium text-sm flex items-center gap-1.5 transition-colors"
@@ -847,6 +1779,19 @@ export default function App() {
         </div>
       )}
 
+      {/* Signature Import Preview */}
+      {pendingSignatureImport && (
+        <SignatureImportPreviewPanel
+          source={pendingSignatureImport.summary.source}
+          items={pendingSignatureImport.items}
+          rejectedCount={pendingSignatureImport.summary.rejected.length}
+          signatures={state.signatures}
+          rule={fileNameRule}
+          onConfirm={handleConfirmSignatureImport}
+          onCancel={() => setPendingSignatureImport(null)}
+        />
+      )}
+
       {/* Guide Modal */}
       {showGuide && (
         <div className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center p-4 backdrop-blur-sm">
@@ -894,11 +1839,23 @@ export default function App() {
               </div>
               <div className="p-8 space-y-8">
                 <div className="space-y-4">
-                  <h4 className="font-bold text-gray-900">📝 서명 파일명 규칙 (필수)</h4>
-                  <p className="text-sm text-gray-600">서명 이미지 파일명은 반드시 <span className="bg-gray-200 px-2 py-0.5 rounded font-mono">사람이름_숫자.확장자</span> 형태여야 합니다.</p>
+                  <h4 className="font-bold text-gray-900">📝 서명 파일명 규칙</h4>
+                  <p className="text-sm text-gray-600">
+                    파일명에서 이름과 번호를 읽는 규칙은 서명 가져오기 미리보기에서 고를 수 있습니다. 현재 규칙:{' '}
+                    <span className="bg-gray-200 px-2 py-0.5 rounded font-mono">
+                      {fileNameRule.preset === 'custom'
+                        ? `사용자 정규식 ${fileNameRule.customPattern || '(미입력)'}`
+                        : FILE_NAME_PRESETS[fileNameRule.preset].label}
+                    </span>
+                  </p>
                   <ul className="text-sm text-gray-600 space-y-1 ml-4">
-                    <li>✅ 올바른 예: <code className="bg-green-100 px-1 text-green-800">홍길동_1.png</code>, <code className="bg-green-100 px-1 text-green-800">김철수_2.jpg</code></li>
-                    <li>❌ 잘못된 예: <code className="bg-red-100 px-1 text-red-800">홍길동.png</code>, <code className="bg-red-100 px-1 text-red-800">signature.jpg</code></li>
+                    {Object.entries(FILE_NAME_PRESETS).map(([preset, { label, example }]) => (
+                      <li key={preset}>• <strong>{label}:</strong> <code className="bg-green-100 px-1 text-green-800">{example}</code></li>
+                    ))}
+                    <li>• <strong>사용자 정규식:</strong> 이름 그룹 <code className="bg-gray-100 px-1">(?&lt;name&gt;...)</code>은 필수, 번호 그룹 <code className="bg-gray-100 px-1">(?&lt;variant&gt;...)</code>은 선택</li>
+                    <li>ℹ️ 기본 규칙(이름_번호)에서는 번호가 없는 <code className="bg-gray-100 px-1">홍길동.png</code>도 파일명 전체를 이름으로 읽습니다</li>
+                    <li>📁 폴더/ZIP 가져오기: <code className="bg-indigo-100 px-1 text-indigo-800">홍길동/1.png</code>처럼 사람별 폴더에 넣으면 폴더명을 이름으로 씁니다</li>
+                    <li>👥 동명이인: <code className="bg-indigo-100 px-1 text-indigo-800">김민수@20231234_1.png</code>처럼 @ 뒤에 사번·소속·생년월일을 붙이면 시트의 사번/소속/생년월일 열과 대조합니다</li>
                   </ul>
                 </div>
 
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { MousePointerClick, Minus, Plus, RotateCcw, Trash2, X, Lock, Unlock } from 'lucide-react';
+import { SignatureAssignment, SignatureFile } from '../types';
+import { MANUAL_EDIT_LIMITS, LockScope, adjustAssignment, createManualAssignment, swapAssignmentVariant } from '../services/assignmentEditor';
+import { columnNumberToLetter } from '../services/excelUtils';
+
+export interface SelectedPreviewCell {
+  key: string; // assignments Map 키
+  row: number;
+  col: number;
+  sheetIndex: number;
+  sheetName: string;
+}
+
+interface AssignmentEditorPanelProps {
+  cell: SelectedPreviewCell;
+  assignment: SignatureAssignment | undefined;
+  signatures: Map<string, SignatureFile[]>;
+  defaultSignatureKey?: string; // 빈 칸에 추가할 때 기본 선택 인원 (같은 행의 서명)
+  processing: boolean;
+  onAssignmentChange: (key: string, assignment: SignatureAssignment | null) => void;
+  onLockChange: (scope: LockScope, locked: boolean) => void;
+  onClose: () => void;
+}
+
+/**
+ * Live Preview에서 선택한 칸의 서명 편집 패널
+ * - 추가/삭제/variant 교체와 회전·크기 미세 조정을 제공한다.
+ * - 위치(offset)는 미리보기에서 서명을 끌어서 조정한다.
+ * - 잠긴 칸은 잠금을 풀기 전까지 편집하지 않는다. (승인된 배치 보호)
+ */
+export default function AssignmentEditorPanel(props: AssignmentEditorPanelProps) {
+  const { cell, assignment, signatures, defaultSignatureKey, processing, onAssignmentChange, onLockChange, onClose } = props;
+
+  const signatureKeys = Array.from(signatures.keys()).sort((a, b) => a.localeCompare(b, 'ko'));
+  const initialKey = assignment?.signatureBaseName || defaultSignatureKey || signatureKeys[0] || '';
+  const [signatureKey, setSignatureKey] = useState(initialKey);
+
+  // 다른 칸을 선택하면 인원 선택을 해당 칸 기준으로 되돌린다.
+  useEffect(() => {
+    setSignatureKey(initialKey);
+  }, [cell.key, initialKey]);
+
+  const variants = signatures.get(signatureKey) || [];
+  const isLocked = !!assignment?.locked;
+  const editDisabled = processing || isLocked;
+  const { rotation, scale } = MANUAL_EDIT_LIMITS;
+
+  const handleSignatureKeyChange = (nextKey: string) => {
+    setSignatureKey(nextKey);
+    const firstVariant = signatures.get(nextKey)?.[0];
+    if (assignment && firstVariant) {
+      onAssignmentChange(cell.key, swapAssignmentVariant(assignment, nextKey, firstVariant.variant));
+    }
+  };
+
+  const handleVariantChange = (variantId: string) => {
+    if (assignment) {
+      onAssignmentChange(cell.key, swapAssignmentVariant(assignment, signatureKey, variantId));
+    }
+  };
+
+  const handleAdd = () => {
+    const firstVariant = variants[0];
+    if (!firstVariant) return;
+    onAssignmentChange(cell.key, createManualAssignment(cell, signatureKey, firstVariant.variant));
+  };
+
+  const nudge = (changes: Partial<Pick<SignatureAssignment, 'rotation' | 'scale' | 'offsetX' | 'offsetY'>>) => {
+    if (assignment) {
+      onAssignmentChange(cell.key, adjustAssignment(assignment, changes));
+    }
+  };
+
+  const stepButtonClass = 'p-1 rounded-md border border-slate-300 bg-white text-slate-700 hover:bg-slate-100 disabled:opacity-50';
+
+  return (
+    <div className="bg-white border border-indigo-200 rounded-xl p-3 space-y-3 text-xs text-slate-700">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-indigo-900 flex items-center gap-2">
+          <MousePointerClick size={14} /> {cell.sheetName} {columnNumberToLetter(cell.col)}{cell.row} 편집
+        </p>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="편집 닫기">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={signatureKey}
+          onChange={(e) => handleSignatureKeyChange(e.target.value)}
+          disabled={editDisabled || signatureKeys.length === 0}
+          className="rounded-lg border border-slate-300 px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {signatureKeys.map(key => <option key={key} value={key}>{key}</option>)}
+        </select>
+        <select
+          value={assignment?.signatureBaseName === signatureKey ? assignment.signatureVariantId : ''}
+          onChange={(e) => handleVariantChange(e.target.value)}
+          disabled={editDisabled || !assignment}
+          className="rounded-lg border border-slate-300 px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-slate-50"
+        >
+          {!assignment && <option value="">variant</option>}
+          {variants.map(sig => <option key={sig.variant} value={sig.variant}>{sig.variant}</option>)}
+        </select>
+      </div>
+
+      {assignment ? (
+        <>
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <span>회전 {assignment.rotation}°</span>
+              <span className="flex gap-1">
+                <button onClick={() => nudge({ rotation: assignment.rotation - rotation.step })} disabled={editDisabled} className={stepButtonClass}><Minus size={12} /></button>
+                <button onClick={() => nudge({ rotation: assignment.rotation + rotation.step })} disabled={editDisabled} className={stepButtonClass}><Plus size={12} /></button>
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span>크기 {Math.round(assignment.scale * 100)}%</span>
+              <span className="flex gap-1">
+                <button onClick={() => nudge({ scale: assignment.scale - scale.step })} disabled={editDisabled} className={stepButtonClass}><Minus size={12} /></button>
+                <button onClick={() => nudge({ scale: assignment.scale + scale.step })} disabled={editDisabled} className={stepButtonClass}><Plus size={12} /></button>
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span>위치 ({assignment.offsetX}, {assignment.offsetY})px · 서명을 끌어서 이동</span>
+              <button onClick={() => nudge({ offsetX: 0, offsetY: 0 })} disabled={editDisabled} className={stepButtonClass} aria-label="위치 초기화">
+                <RotateCcw size={12} />
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-1">
+            {([
+              ['cell', '칸'],
+              ['row', '행'],
+              ['person', '사람'],
+            ] as [LockScope, string][]).map(([scope, label]) => (
+              <button
+                key={scope}
+                onClick={() => onLockChange(scope, !isLocked)}
+                disabled={processing}
+                className={`px-2 py-1 rounded-md border font-medium flex items-center justify-center gap-1 disabled:opacity-50 ${
+                  isLocked ? 'border-amber-300 bg-amber-50 text-amber-800 hover:bg-amber-100' : 'border-slate-300 bg-white text-slate-700 hover:bg-slate-100'
+                }`}
+                title={isLocked ? `${label} 단위 잠금 해제` : `${label} 단위 잠금 (재매칭 시 유지)`}
+              >
+                {isLocked ? <Unlock size={11} /> : <Lock size={11} />} {label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => onAssignmentChange(cell.key, null)}
+            disabled={editDisabled}
+            className="w-full px-3 py-1.5 rounded-lg border border-rose-200 bg-rose-50 text-rose-700 font-medium hover:bg-rose-100 disabled:opacity-50 flex items-center justify-center gap-1"
+          >
+            <Trash2 size={12} /> 이 칸 서명 삭제
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={handleAdd}
+          disabled={processing || variants.length === 0}
+          className="w-full px-3 py-1.5 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center gap-1"
+        >
+          <Plus size={12} /> 이 칸에 서명 추가
+        </button>
+      )}
+    </div>
+  );
+}
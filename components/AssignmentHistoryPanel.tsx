@@ -0,0 +1,72 @@
+import React from 'react';
+import { History, Undo2, Redo2, Eraser } from 'lucide-react';
+import { AssignmentHistory, canUndoAssignments, canRedoAssignments } from '../services/assignmentHistory';
+
+interface AssignmentHistoryPanelProps {
+  history: AssignmentHistory;
+  processing: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+  onClearAll: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * 서명 배치 변경 이력 패널
+ * - 항목을 클릭하면 해당 시점의 배치로 되돌아가 비교할 수 있다. (이후 항목은 다시 실행으로 남는다)
+ */
+export default function AssignmentHistoryPanel(props: AssignmentHistoryPanelProps) {
+  const { history, processing, onUndo, onRedo, onJump, onClearAll } = props;
+  const currentCount = history.entries[history.index]?.assignments.size ?? 0;
+
+  const iconButtonClass = 'p-1.5 rounded-md border border-slate-300 bg-white text-slate-700 hover:bg-slate-100 disabled:opacity-40';
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-slate-800 flex items-center gap-2">
+          <History size={14} /> 변경 이력
+        </p>
+        <div className="flex gap-1">
+          <button onClick={onUndo} disabled={processing || !canUndoAssignments(history)} className={iconButtonClass} title="실행 취소 (Ctrl+Z)">
+            <Undo2 size={13} />
+          </button>
+          <button onClick={onRedo} disabled={processing || !canRedoAssignments(history)} className={iconButtonClass} title="다시 실행 (Ctrl+Shift+Z)">
+            <Redo2 size={13} />
+          </button>
+          <button onClick={onClearAll} disabled={processing || currentCount === 0} className={iconButtonClass} title="전체 서명 지우기">
+            <Eraser size={13} />
+          </button>
+        </div>
+      </div>
+
+      {history.entries.length === 0 ? (
+        <p className="text-xs text-slate-500">아직 변경 이력이 없습니다.</p>
+      ) : (
+        <ol className="max-h-40 overflow-y-auto space-y-0.5 text-xs">
+          {history.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+            <li key={entry.id}>
+              <button
+                onClick={() => onJump(index)}
+                disabled={processing}
+                className={`w-full text-left px-2 py-1 rounded-md flex justify-between gap-2 ${
+                  index === history.index
+                    ? 'bg-indigo-100 text-indigo-900 font-medium'
+                    : index > history.index
+                      ? 'text-slate-400 hover:bg-slate-100'
+                      : 'text-slate-700 hover:bg-slate-100'
+                }`}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="flex-shrink-0 text-slate-500">{entry.assignments.size}개 · {formatTime(entry.timestamp)}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { ListChecks, RotateCcw } from 'lucide-react';
+import { PlaceholderRules } from '../types';
+import { DEFAULT_PLACEHOLDER_RULES, validatePlaceholderPattern } from '../services/excelUtils';
+
+interface PlaceholderRulesPanelProps {
+  rules: PlaceholderRules;
+  processing: boolean;
+  onRulesChange: (rules: PlaceholderRules) => void;
+}
+
+const splitList = (text: string, separator: RegExp) =>
+  text.split(separator).map(item => item.trim()).filter(Boolean);
+
+/**
+ * 서명 placeholder 규칙 편집 패널
+ * - 입력 중 재포맷으로 커서가 튀지 않도록 텍스트는 초안 상태로 두고 blur 시점에 반영한다.
+ */
+export default function PlaceholderRulesPanel(props: PlaceholderRulesPanelProps) {
+  const { rules, processing, onRulesChange } = props;
+
+  const [literalsDraft, setLiteralsDraft] = useState(rules.literals.join(', '));
+  const [patternsDraft, setPatternsDraft] = useState(rules.patterns.join('\n'));
+  const [fillColorsDraft, setFillColorsDraft] = useState(rules.fillColors.join(', '));
+
+  // 저장된 양식 설정 적용 등 외부에서 규칙이 바뀌면 초안을 동기화
+  useEffect(() => {
+    setLiteralsDraft(rules.literals.join(', '));
+    setPatternsDraft(rules.patterns.join('\n'));
+    setFillColorsDraft(rules.fillColors.join(', '));
+  }, [rules]);
+
+  const patternErrors = splitList(patternsDraft, /\n/)
+    .map(pattern => ({ pattern, error: validatePlaceholderPattern(pattern) }))
+    .filter(entry => entry.error);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-lg border-2 border-gray-100 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2"><ListChecks size={18} /> 서명 위치 표시 규칙</h3>
+          <p className="text-gray-500 text-sm">서명이 들어갈 칸을 나타내는 기호와 규칙입니다. 양식 설정 저장 시 함께 저장됩니다.</p>
+        </div>
+        <button
+          onClick={() => onRulesChange(DEFAULT_PLACEHOLDER_RULES)}
+          disabled={processing}
+          className="px-3 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1 flex-shrink-0"
+        >
+          <RotateCcw size={14} /> 기본값
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        <label className="space-y-1">
+          <span className="font-medium text-gray-700">기호 목록 (쉼표로 구분)</span>
+          <input
+            type="text"
+            value={literalsDraft}
+            onChange={(e) => setLiteralsDraft(e.target.value)}
+            onBlur={() => onRulesChange({ ...rules, literals: splitList(literalsDraft, /,/) })}
+            disabled={processing}
+            placeholder="1, (1), o, ○, V, ✓, 서명"
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+
+        <label className="space-y-1">
+          <span className="font-medium text-gray-700">정규식 (한 줄에 하나, 셀 값 전체 일치)</span>
+          <textarea
+            value={patternsDraft}
+            onChange={(e) => setPatternsDraft(e.target.value)}
+            onBlur={() => onRulesChange({ ...rules, patterns: splitList(patternsDraft, /\n/) })}
+            disabled={processing}
+            rows={2}
+            placeholder={'[vV✓✔]\n[●○]'}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          {patternErrors.map(({ pattern, error }) => (
+            <span key={pattern} className="block text-xs text-red-600">{pattern}: {error}</span>
+          ))}
+        </label>
+
+        <label className="flex items-start gap-2">
+          <input
+            type="checkbox"
+            checked={rules.blankUnderSignatureHeader}
+            onChange={(e) => onRulesChange({ ...rules, blankUnderSignatureHeader: e.target.checked })}
+            disabled={processing}
+            className="mt-1 accent-indigo-600"
+          />
+          <span>
+            <span className="font-medium text-gray-700 block">'서명' 헤더 아래 빈 칸에도 서명</span>
+            <input
+              type="text"
+              value={rules.signatureHeaderPattern}
+              onChange={(e) => onRulesChange({ ...rules, signatureHeaderPattern: e.target.value })}
+              disabled={processing || !rules.blankUnderSignatureHeader}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1 text-xs font-mono disabled:bg-gray-50"
+            />
+          </span>
+        </label>
+
+        <label className="space-y-1">
+          <span className="font-medium text-gray-700">배경색 칠한 빈 칸 (RGB, 쉼표로 구분)</span>
+          <input
+            type="text"
+            value={fillColorsDraft}
+            onChange={(e) => setFillColorsDraft(e.target.value)}
+            onBlur={() => onRulesChange({ ...rules, fillColors: splitList(fillColorsDraft, /,/) })}
+            disabled={processing}
+            placeholder="FFFF00"
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
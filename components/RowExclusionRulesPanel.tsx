@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { UserX, RotateCcw } from 'lucide-react';
+import { RowExclusionRules } from '../types';
+import { DEFAULT_ROW_EXCLUSION_RULES } from '../services/excelUtils';
+
+interface RowExclusionRulesPanelProps {
+  rules: RowExclusionRules;
+  processing: boolean;
+  onRulesChange: (rules: RowExclusionRules) => void;
+}
+
+const splitList = (text: string) =>
+  text.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * 명단 행 제외 규칙 편집 패널
+ * - 퇴사/결근 등 비고 값, 취소선, 배경색, 숨긴 행에 해당하는 사람은 서명하지 않고 대사 결과에 사유와 함께 남긴다.
+ */
+export default function RowExclusionRulesPanel(props: RowExclusionRulesPanelProps) {
+  const { rules, processing, onRulesChange } = props;
+
+  const [keywordsDraft, setKeywordsDraft] = useState(rules.statusKeywords.join(', '));
+  const [fillColorsDraft, setFillColorsDraft] = useState(rules.fillColors.join(', '));
+
+  // 저장된 양식 설정 적용 등 외부에서 규칙이 바뀌면 초안을 동기화
+  useEffect(() => {
+    setKeywordsDraft(rules.statusKeywords.join(', '));
+    setFillColorsDraft(rules.fillColors.join(', '));
+  }, [rules]);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-lg border-2 border-gray-100 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2"><UserX size={18} /> 서명 제외 규칙</h3>
+          <p className="text-gray-500 text-sm">규칙에 해당하는 행은 서명하지 않고 매칭 대사 결과에 사유를 표시합니다. 양식 설정 저장 시 함께 저장됩니다.</p>
+        </div>
+        <button
+          onClick={() => onRulesChange(DEFAULT_ROW_EXCLUSION_RULES)}
+          disabled={processing}
+          className="px-3 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1 flex-shrink-0"
+        >
+          <RotateCcw size={14} /> 기본값
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        <label className="space-y-1">
+          <span className="font-medium text-gray-700">비고 값 (쉼표로 구분, 포함 시 제외)</span>
+          <input
+            type="text"
+            value={keywordsDraft}
+            onChange={(e) => setKeywordsDraft(e.target.value)}
+            onBlur={() => onRulesChange({ ...rules, statusKeywords: splitList(keywordsDraft) })}
+            disabled={processing}
+            placeholder="퇴사, 결근, 휴가"
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+
+        <label className="space-y-1">
+          <span className="font-medium text-gray-700">비고 열 헤더 (정규식)</span>
+          <input
+            type="text"
+            value={rules.statusHeaderPattern}
+            onChange={(e) => onRulesChange({ ...rules, statusHeaderPattern: e.target.value })}
+            disabled={processing}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={rules.strikethrough}
+              onChange={(e) => onRulesChange({ ...rules, strikethrough: e.target.checked })}
+              disabled={processing}
+              className="accent-indigo-600"
+            />
+            <span className="font-medium text-gray-700">성명에 취소선이 있는 행 제외</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={rules.hiddenRows}
+              onChange={(e) => onRulesChange({ ...rules, hiddenRows: e.target.checked })}
+              disabled={processing}
+              className="accent-indigo-600"
+            />
+            <span className="font-medium text-gray-700">숨긴 행 제외</span>
+          </label>
+        </div>
+
+        <label className="space-y-1">
+          <span className="font-medium text-gray-700">성명 칸 배경색 (RGB, 쉼표로 구분)</span>
+          <input
+            type="text"
+            value={fillColorsDraft}
+            onChange={(e) => setFillColorsDraft(e.target.value)}
+            onBlur={() => onRulesChange({ ...rules, fillColors: splitList(fillColorsDraft) })}
+            disabled={processing}
+            placeholder="BFBFBF"
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
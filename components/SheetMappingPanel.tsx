@@ -0,0 +1,175 @@
+import React from 'react';
+import { Columns, Save } from 'lucide-react';
+import { SheetData, SheetColumnMapping, RosterLayout } from '../types';
+import { detectNameHeader, getRosterNameColumns, getTransposedNameColumns } from '../services/excelService';
+import { columnNumberToLetter } from '../services/excelUtils';
+
+interface SheetMappingPanelProps {
+  sheetData: SheetData;
+  sheetMappings: Map<number, SheetColumnMapping>;
+  processing: boolean;
+  onMappingChange: (sheetIndex: number, mapping: SheetColumnMapping | null) => void;
+  onSaveMappings: () => void;
+}
+
+const MAX_HEADER_CANDIDATE_ROWS = 50;
+const PERSON_ROW_SPAN_OPTIONS = [1, 2, 3, 4];
+
+const getCellText = (value: string | number | null) => (value ?? '').toString().trim();
+
+/**
+ * 시트별 헤더 행/성명 열 수동 지정 패널
+ * - '자동 탐지'를 선택하면 매칭 시 기존 키워드 기반 탐지를 그대로 사용한다.
+ * - 자동 탐지에 실패한 시트는 경고로 표시해 수동 지정을 유도한다.
+ * - 가로 명단(성명이 헤더 행에 나열되고 날짜가 행으로 내려가는 양식)은 배치를 '가로'로 지정한다.
+ *   자동 탐지 상태에서도 서명 이름이 나열된 행이 있으면 매칭 시 가로 명단으로 처리된다.
+ */
+export default function SheetMappingPanel(props: SheetMappingPanelProps) {
+  const { sheetData, sheetMappings, processing, onMappingChange, onSaveMappings } = props;
+
+  const sheets = (sheetData.sheets && sheetData.sheets.length > 0) ? sheetData.sheets : [sheetData];
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-lg border-2 border-gray-100 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2"><Columns size={18} /> 시트별 성명 열 지정</h3>
+          <p className="text-gray-500 text-sm">자동 탐지가 틀리거나 실패한 시트만 헤더 행과 성명 열을 직접 선택하세요. 저장한 설정은 같은 양식을 올릴 때 자동 적용됩니다.</p>
+        </div>
+        <button
+          onClick={onSaveMappings}
+          disabled={processing}
+          className="px-3 py-2 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-slate-800 disabled:opacity-50 flex items-center gap-1 flex-shrink-0"
+        >
+          <Save size={14} /> 양식 설정 저장
+        </button>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {sheets.map((sheet, order) => {
+          const sheetIndex = sheet.sheetIndex ?? order;
+          const detected = detectNameHeader(sheet);
+          const mapping = sheetMappings.get(sheetIndex);
+          const effectiveMapping = mapping || detected;
+          const isTransposed = mapping?.layout === 'transposed';
+          const blockCount = effectiveMapping && !isTransposed ? getRosterNameColumns(sheet, effectiveMapping).length : 0;
+          const transposedCount = mapping && isTransposed ? getTransposedNameColumns(sheet, mapping).length : 0;
+          const headerRowValue = mapping ? String(mapping.headerRow) : 'auto';
+          const headerRow = mapping ? sheet.rows.find(row => row.index === mapping.headerRow) : undefined;
+          const candidateRows = sheet.rows
+            .slice(0, MAX_HEADER_CANDIDATE_ROWS)
+            .filter(row => row.cells.some(cell => getCellText(cell.value)));
+
+          const handleHeaderRowChange = (value: string) => {
+            if (value === 'auto') {
+              onMappingChange(sheetIndex, null);
+              return;
+            }
+
+            const rowIndex = Number(value);
+            const row = sheet.rows.find(candidate => candidate.index === rowIndex);
+            const keepsDetectedCol = detected && row?.cells.some(cell => cell.col === detected.nameCol && getCellText(cell.value));
+            const firstFilledCol = row?.cells.find(cell => getCellText(cell.value))?.col ?? 1;
+
+            onMappingChange(sheetIndex, {
+              headerRow: rowIndex,
+              nameCol: keepsDetectedCol && detected && !isTransposed ? detected.nameCol : firstFilledCol,
+              ...(isTransposed ? { layout: 'transposed' as RosterLayout } : {}),
+              ...(mapping?.personRowSpan ? { personRowSpan: mapping.personRowSpan } : {}),
+            });
+          };
+
+          const handleLayoutChange = (value: string) => {
+            if (value === 'auto') {
+              onMappingChange(sheetIndex, null);
+              return;
+            }
+
+            const layout = value as RosterLayout;
+            const base = mapping || detected || { headerRow: candidateRows[0]?.index ?? 1, nameCol: 1 };
+            // 좌우 블록 성명 열은 가로 명단에서 쓰지 않지만, 세로로 되돌릴 때 다시 쓰도록 남겨 둔다.
+            const { layout: _previous, ...rest } = base;
+            onMappingChange(sheetIndex, layout === 'transposed' ? { ...rest, layout } : rest);
+          };
+
+          const handleRowSpanChange = (value: number) => {
+            const { personRowSpan: _previous, ...base } = mapping || detected || { headerRow: candidateRows[0]?.index ?? 1, nameCol: 1 };
+            onMappingChange(sheetIndex, value > 1 ? { ...base, personRowSpan: value } : base);
+          };
+
+          return (
+            <div key={`mapping-${sheetIndex}`} className="py-3 grid grid-cols-1 md:grid-cols-[160px_140px_1fr_1fr_110px] gap-3 items-center">
+              <div className="text-sm">
+                <p className="font-semibold text-gray-800 truncate">{sheet.name}</p>
+                <p className={`text-xs ${detected ? 'text-gray-500' : 'text-amber-600'}`}>
+                  {detected
+                    ? `자동: ${detected.headerRow}행 / ${columnNumberToLetter(detected.nameCol)}열`
+                    : '자동 탐지 실패 - 지정 필요'}
+                </p>
+                {blockCount > 1 && (
+                  <p className="text-xs text-indigo-600">좌우 명단 블록 {blockCount}개</p>
+                )}
+                {isTransposed && (
+                  <p className="text-xs text-indigo-600">가로 명단 {transposedCount}명</p>
+                )}
+              </div>
+
+              <select
+                value={mapping ? (mapping.layout || 'vertical') : 'auto'}
+                onChange={(e) => handleLayoutChange(e.target.value)}
+                disabled={processing}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="auto">배치: 자동</option>
+                <option value="vertical">세로 명단</option>
+                <option value="transposed">가로 명단</option>
+              </select>
+
+              <select
+                value={headerRowValue}
+                onChange={(e) => handleHeaderRowChange(e.target.value)}
+                disabled={processing}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="auto">헤더 행: 자동 탐지</option>
+                {candidateRows.map(row => (
+                  <option key={`row-${row.index}`} value={row.index}>
+                    {row.index}행: {row.cells.map(cell => getCellText(cell.value)).filter(Boolean).slice(0, 4).join(' / ')}
+                  </option>
+                ))}
+              </select>
+
+              <select
+                value={mapping ? String(mapping.nameCol) : ''}
+                onChange={(e) => mapping && onMappingChange(sheetIndex, { ...mapping, nameCol: Number(e.target.value) })}
+                disabled={processing || !mapping}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-50"
+              >
+                {!mapping && <option value="">성명 열: 자동 탐지</option>}
+                {headerRow?.cells
+                  .filter(cell => getCellText(cell.value))
+                  .map(cell => (
+                    <option key={`col-${cell.col}`} value={cell.col}>
+                      {columnNumberToLetter(cell.col)}열{isTransposed ? '부터' : ''}: {getCellText(cell.value)}
+                    </option>
+                  ))}
+              </select>
+
+              <select
+                value={mapping?.personRowSpan ?? 1}
+                onChange={(e) => handleRowSpanChange(Number(e.target.value))}
+                disabled={processing || isTransposed}
+                title="성명 아래 행의 서명 칸도 같은 사람으로 처리합니다. (세로 병합된 성명 칸은 자동 인식)"
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-50"
+              >
+                {PERSON_ROW_SPAN_OPTIONS.map(span => (
+                  <option key={`span-${span}`} value={span}>1인 {span}행</option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
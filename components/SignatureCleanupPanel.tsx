@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { Eraser, Crop, Palette } from 'lucide-react';
+import { SignatureFile } from '../types';
+import { BACKGROUND_THRESHOLD_RANGE, InkColorMode, InkNormalization } from '../services/signatureImageService';
+import { SIGNATURE_QUALITY_LABELS } from '../services/signatureQualityService';
+
+interface SignatureCleanupPanelProps {
+  signatures: Map<string, SignatureFile[]>;
+  processing: boolean;
+  trimPadding: number | null;
+  inkNormalization: InkNormalization;
+  personInkNormalization: Record<string, InkNormalization>;
+  onThresholdChange: (signatureKey: string, variant: string, threshold: number | null) => void;
+  onTrimPaddingChange: (padding: number | null) => void;
+  onInkNormalizationChange: (ink: InkNormalization) => void;
+  onPersonInkNormalizationChange: (signatureKey: string, ink: InkNormalization | null) => void;
+}
+
+const INK_COLOR_OPTIONS: { value: InkColorMode; label: string }[] = [
+  { value: 'keep', label: '원래 색' },
+  { value: 'black', label: '검정' },
+  { value: 'blue', label: '파랑' },
+];
+
+interface InkControlsProps {
+  ink: InkNormalization;
+  processing: boolean;
+  onChange: (ink: InkNormalization) => void;
+}
+
+/** 획 색 선택 + 대비 정규화 체크 */
+function InkControls({ ink, processing, onChange }: InkControlsProps) {
+  return (
+    <span className="flex items-center gap-2">
+      <select
+        value={ink.color}
+        onChange={(e) => onChange({ ...ink, color: e.target.value as InkColorMode })}
+        disabled={processing}
+        className="rounded-lg border border-gray-300 px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      >
+        {INK_COLOR_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+      <label className="flex items-center gap-1" title="흐린 획(연필, 바랜 잉크)을 진하게 하고 누런 종이 색을 흰색으로 맞춥니다.">
+        <input
+          type="checkbox"
+          checked={ink.contrast}
+          onChange={(e) => onChange({ ...ink, contrast: e.target.checked })}
+          disabled={processing}
+          className="accent-indigo-600"
+        />
+        대비 보정
+      </label>
+    </span>
+  );
+}
+
+/** 여백 자르기 선택지 (px, null = 자르지 않음) */
+const TRIM_PADDING_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: '자르지 않음' },
+  { value: 0, label: '여백 없이' },
+  { value: 4, label: '4px' },
+  { value: 8, label: '8px' },
+  { value: 16, label: '16px' },
+  { value: 32, label: '32px' },
+];
+
+/** 투명 영역이 보이도록 바둑판 배경 위에 미리보기를 그린다. */
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundImage: 'repeating-conic-gradient(#e2e8f0 0% 25%, #ffffff 0% 50%)',
+  backgroundSize: '12px 12px',
+};
+
+interface CleanupRowProps {
+  signatureKey: string;
+  sig: SignatureFile;
+  processing: boolean;
+  onThresholdChange: SignatureCleanupPanelProps['onThresholdChange'];
+}
+
+/**
+ * 파일 한 개의 배경 제거 미리보기/임계값 조절
+ * - 슬라이더를 놓을 때만 다시 처리해 드래그 중 불필요한 재계산을 막는다.
+ */
+function CleanupRow({ signatureKey, sig, processing, onThresholdChange }: CleanupRowProps) {
+  const enabled = sig.backgroundThreshold !== undefined;
+  const [draft, setDraft] = useState(sig.backgroundThreshold ?? 200);
+
+  useEffect(() => {
+    if (sig.backgroundThreshold !== undefined) setDraft(sig.backgroundThreshold);
+  }, [sig.backgroundThreshold]);
+
+  const commit = () => {
+    if (enabled && draft !== sig.backgroundThreshold) {
+      onThresholdChange(signatureKey, sig.variant, draft);
+    }
+  };
+
+  return (
+    <li className="py-2 grid grid-cols-[64px_64px_1fr] md:grid-cols-[80px_80px_1fr_220px] gap-3 items-center">
+      <img src={sig.sourceUrl || sig.previewUrl} alt="" className="h-10 w-full object-contain bg-white border border-gray-200 rounded" />
+      <div className="h-10 border border-gray-200 rounded" style={CHECKERBOARD_STYLE}>
+        <img src={sig.previewUrl} alt={sig.variant} className="h-full w-full object-contain" />
+      </div>
+      <p className="text-sm text-gray-700 truncate" title={sig.variant}>
+        {sig.variant}
+        <span className="block text-xs text-gray-400 font-mono">{sig.width}×{sig.height}</span>
+        {sig.qualityIssues && sig.qualityIssues.length > 0 && (
+          <span className="flex flex-wrap gap-1 mt-0.5">
+            {sig.qualityIssues.map(issue => (
+              <span
+                key={issue}
+                className="px-1.5 py-0.5 rounded bg-orange-100 text-orange-700 text-[10px] font-medium"
+                title={SIGNATURE_QUALITY_LABELS[issue].detail}
+              >
+                {SIGNATURE_QUALITY_LABELS[issue].label}
+              </span>
+            ))}
+          </span>
+        )}
+      </p>
+      <div className="col-span-3 md:col-span-1 flex items-center gap-2 text-xs text-gray-600">
+        <label className="flex items-center gap-1 flex-shrink-0">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onThresholdChange(signatureKey, sig.variant, e.target.checked ? draft : null)}
+            disabled={processing}
+            className="accent-indigo-600"
+          />
+          배경 제거
+        </label>
+        <input
+          type="range"
+          min={BACKGROUND_THRESHOLD_RANGE.min}
+          max={BACKGROUND_THRESHOLD_RANGE.max}
+          step={BACKGROUND_THRESHOLD_RANGE.step}
+          value={draft}
+          onChange={(e) => setDraft(Number(e.target.value))}
+          onPointerUp={commit}
+          onKeyUp={commit}
+          disabled={processing || !enabled}
+          className="flex-1 accent-indigo-600"
+          title="값이 낮을수록 더 많은 밝은 영역을 지웁니다."
+        />
+        <span className="w-8 text-right font-mono">{draft}</span>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * 업로드 서명 배경 정리 패널
+ * - 원본(흰 배경)과 정리 결과(바둑판 = 투명)를 나란히 보여주고 파일별 임계값을 조절한다.
+ * - 여백 자르기는 모든 서명에, 획 색/대비는 전체 또는 사람별로 적용한다.
+ */
+export default function SignatureCleanupPanel(props: SignatureCleanupPanelProps) {
+  const {
+    signatures,
+    processing,
+    trimPadding,
+    inkNormalization,
+    personInkNormalization,
+    onThresholdChange,
+    onTrimPaddingChange,
+    onInkNormalizationChange,
+    onPersonInkNormalizationChange,
+  } = props;
+
+  const groups = Array.from(signatures.entries()).sort(([a], [b]) => a.localeCompare(b, 'ko'));
+  const allFiles = groups.flatMap(([, list]) => list);
+  const cleanedCount = allFiles.filter(sig => sig.backgroundThreshold !== undefined).length;
+  const flaggedCount = allFiles.filter(sig => sig.qualityIssues && sig.qualityIssues.length > 0).length;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-lg border-2 border-gray-100 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2"><Eraser size={18} /> 서명 배경 정리</h3>
+          <p className="text-gray-500 text-sm">
+            종이 배경을 투명하게 바꿔 셀 테두리와 글자가 가려지지 않게 합니다. 배경이 남거나 획이 흐려지면 파일별로 임계값을 조절하세요.
+            ({cleanedCount}/{allFiles.length}개 적용)
+          </p>
+          {flaggedCount > 0 && (
+            <p className="text-sm text-orange-700 mt-1">품질 경고가 있는 서명 {flaggedCount}개 — 표시된 배지에 마우스를 올려 내용을 확인하세요.</p>
+          )}
+        </div>
+        <div className="flex flex-col items-end gap-2 text-sm text-gray-700 flex-shrink-0">
+          <label className="flex items-center gap-2" title="획 주변의 빈 여백을 잘라 서명이 칸 안에서 작게 찍히지 않게 합니다.">
+            <Crop size={14} /> 여백 자르기
+            <select
+              value={trimPadding === null ? '' : String(trimPadding)}
+              onChange={(e) => onTrimPaddingChange(e.target.value === '' ? null : Number(e.target.value))}
+              disabled={processing}
+              className="rounded-lg border border-gray-300 px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {TRIM_PADDING_OPTIONS.map(option => (
+                <option key={option.label} value={option.value === null ? '' : String(option.value)}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <span className="flex items-center gap-2">
+            <Palette size={14} /> 획 색
+            <InkControls ink={inkNormalization} processing={processing} onChange={onInkNormalizationChange} />
+          </span>
+        </div>
+      </div>
+      <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto pr-1">
+        {groups.map(([signatureKey, list]) => {
+          const personInk = personInkNormalization[signatureKey];
+          return (
+            <li key={signatureKey} className="py-2">
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-600">
+                <span className="text-sm font-semibold text-gray-800">{signatureKey}</span>
+                <span className="flex items-center gap-2">
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={!!personInk}
+                      onChange={(e) => onPersonInkNormalizationChange(signatureKey, e.target.checked ? inkNormalization : null)}
+                      disabled={processing}
+                      className="accent-indigo-600"
+                    />
+                    개별 획 색
+                  </label>
+                  {personInk && (
+                    <InkControls
+                      ink={personInk}
+                      processing={processing}
+                      onChange={(ink) => onPersonInkNormalizationChange(signatureKey, ink)}
+                    />
+                  )}
+                </span>
+              </div>
+              <ul>
+                {list.map(sig => (
+                  <CleanupRow
+                    key={sig.variant}
+                    signatureKey={signatureKey}
+                    sig={sig}
+                    processing={processing}
+                    onThresholdChange={onThresholdChange}
+                  />
+                ))}
+              </ul>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
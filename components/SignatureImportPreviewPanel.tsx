@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { FileSearch, X } from 'lucide-react';
+import { SignatureFile } from '../types';
+import { getSignatureKey } from '../services/excelService';
+import {
+  SignatureImportItem,
+  SignatureFileNameRule,
+  SignatureFileNamePreset,
+  FILE_NAME_PRESETS,
+  compileFileNameRule,
+  resolveImportCandidates,
+} from '../services/signatureImportService';
+
+interface SignatureImportPreviewPanelProps {
+  source: string;
+  items: SignatureImportItem[];
+  rejectedCount: number; // 미리보기 전에 이미 거절된 항목 (이미지가 아님 등)
+  signatures: Map<string, SignatureFile[]>;
+  rule: SignatureFileNameRule;
+  onConfirm: (rule: SignatureFileNameRule) => void;
+  onCancel: () => void;
+}
+
+/** 표에 그릴 최대 행 수 (나머지는 개수만 표시) */
+const MAX_PREVIEW_ROWS = 300;
+
+type PreviewStatus = 'ok' | 'duplicate' | 'unparsed';
+
+const STATUS_LABELS: Record<PreviewStatus, { label: string; className: string }> = {
+  ok: { label: '추가', className: 'bg-green-100 text-green-700' },
+  duplicate: { label: '중복', className: 'bg-amber-100 text-amber-700' },
+  unparsed: { label: '이름 인식 불가', className: 'bg-rose-100 text-rose-700' },
+};
+
+/**
+ * 서명 가져오기 전 파일명 해석 미리보기
+ * - 파일명 규칙(프리셋/사용자 정규식)을 바꾸면 각 파일이 어떤 이름·번호로 들어갈지 바로 다시 보여준다.
+ * - 사람별 폴더 안의 파일은 폴더명이 이름이므로 규칙과 관계없이 같은 결과가 나온다.
+ */
+export default function SignatureImportPreviewPanel(props: SignatureImportPreviewPanelProps) {
+  const { source, items, rejectedCount, signatures, rule, onConfirm, onCancel } = props;
+  const [draft, setDraft] = useState<SignatureFileNameRule>(rule);
+
+  const compiled = compileFileNameRule(draft);
+  const ruleError = 'error' in compiled ? compiled.error : null;
+  const candidates = resolveImportCandidates(items, draft);
+
+  // 기존 서명 또는 같은 가져오기 안에서 사람·파일명이 겹치면 중복
+  const seen = new Set<string>();
+  const rows = candidates.map(candidate => {
+    let status: PreviewStatus = 'unparsed';
+    if (candidate.owner) {
+      const key = getSignatureKey(candidate.owner.name, candidate.owner.qualifier);
+      const id = `${key}/${candidate.file.name}`;
+      const exists = seen.has(id) || (signatures.get(key) || []).some(sig => sig.variant === candidate.file.name);
+      seen.add(id);
+      status = exists ? 'duplicate' : 'ok';
+    }
+    return { candidate, status };
+  });
+  const counts = rows.reduce<Record<PreviewStatus, number>>(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { ok: 0, duplicate: 0, unparsed: 0 }
+  );
+
+  const inputClass = 'rounded-lg border border-gray-300 px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-3xl rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <FileSearch className="text-indigo-600" /> 서명 파일명 확인: {source}
+          </h3>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-700" aria-label="가져오기 취소">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium text-gray-700">파일명 규칙</span>
+            <select
+              value={draft.preset}
+              onChange={(e) => setDraft(prev => ({ ...prev, preset: e.target.value as SignatureFileNamePreset }))}
+              className={inputClass}
+            >
+              {(Object.keys(FILE_NAME_PRESETS) as Exclude<SignatureFileNamePreset, 'custom'>[]).map(preset => (
+                <option key={preset} value={preset}>
+                  {FILE_NAME_PRESETS[preset].label} (예: {FILE_NAME_PRESETS[preset].example})
+                </option>
+              ))}
+              <option value="custom">직접 입력 (정규식)</option>
+            </select>
+            {draft.preset === 'custom' && (
+              <input
+                type="text"
+                value={draft.customPattern}
+                onChange={(e) => setDraft(prev => ({ ...prev, customPattern: e.target.value }))}
+                placeholder="^(?<variant>\d+)-(?<name>.+)$"
+                className={`${inputClass} flex-1 min-w-[220px] font-mono`}
+              />
+            )}
+          </div>
+          {draft.preset === 'custom' && (
+            <p className="text-xs text-gray-500">
+              확장자를 뺀 파일명에 적용합니다. 이름은 (?&lt;name&gt;...), 번호는 (?&lt;variant&gt;...) 그룹으로 지정하세요.
+            </p>
+          )}
+          {ruleError && <p className="text-sm text-rose-600">{ruleError}</p>}
+
+          <div className="flex flex-wrap gap-2 text-xs">
+            <span className={`px-2 py-0.5 rounded-full ${STATUS_LABELS.ok.className}`}>추가 {counts.ok}</span>
+            <span className={`px-2 py-0.5 rounded-full ${STATUS_LABELS.duplicate.className}`}>중복 {counts.duplicate}</span>
+            <span className={`px-2 py-0.5 rounded-full ${STATUS_LABELS.unparsed.className}`}>이름 인식 불가 {counts.unparsed}</span>
+            {rejectedCount > 0 && <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">이미지 아님 {rejectedCount}</span>}
+          </div>
+
+          <div className="border border-gray-100 rounded-lg max-h-[45vh] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600 text-xs sticky top-0">
+                <tr>
+                  <th className="p-2 text-left">파일</th>
+                  <th className="p-2 text-left">이름</th>
+                  <th className="p-2 text-left">구분자</th>
+                  <th className="p-2 text-left">번호</th>
+                  <th className="p-2 text-left">결과</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.slice(0, MAX_PREVIEW_ROWS).map(({ candidate, status }) => (
+                  <tr key={candidate.path}>
+                    <td className="p-2 font-mono text-xs text-gray-700 truncate max-w-[240px]" title={candidate.path}>{candidate.path}</td>
+                    <td className="p-2 text-gray-800">{candidate.owner?.name || '-'}</td>
+                    <td className="p-2 text-gray-500">{candidate.owner?.qualifier || '-'}</td>
+                    <td className="p-2 text-gray-500">{candidate.owner?.variant || '-'}</td>
+                    <td className="p-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_LABELS[status].className}`}>{STATUS_LABELS[status].label}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length > MAX_PREVIEW_ROWS && (
+              <p className="p-2 text-xs text-gray-400">외 {rows.length - MAX_PREVIEW_ROWS}개</p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-end gap-2">
+          <button onClick={onCancel} className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50">
+            취소
+          </button>
+          <button
+            onClick={() => onConfirm(draft)}
+            disabled={!!ruleError || counts.ok === 0}
+            className="px-4 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {counts.ok}개 가져오기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
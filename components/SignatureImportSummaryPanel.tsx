@@ -0,0 +1,64 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { SignatureImportSummary } from '../services/signatureImportService';
+
+interface SignatureImportSummaryPanelProps {
+  summary: SignatureImportSummary;
+  onClose: () => void;
+}
+
+/** 목록이 길면 앞부분만 보여준다. */
+const MAX_LISTED = 20;
+
+/**
+ * 서명 가져오기 결과 요약 (추가 / 중복 / 거절)
+ */
+export default function SignatureImportSummaryPanel({ summary, onClose }: SignatureImportSummaryPanelProps) {
+  const { accepted, flagged, duplicates, rejected } = summary;
+
+  return (
+    <div className="w-full text-left bg-gray-50 border border-gray-200 rounded-xl p-3 space-y-2 text-xs text-gray-700">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-gray-800 truncate" title={summary.source}>가져오기 결과: {summary.source}</p>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="가져오기 결과 닫기">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-700">추가 {accepted.length}</span>
+        {flagged.length > 0 && (
+          <span className="px-2 py-0.5 rounded-full bg-orange-100 text-orange-700" title="서명 배경 정리 목록에서 파일별 경고를 확인하세요.">
+            품질 경고 {flagged.length}
+          </span>
+        )}
+        <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">중복 {duplicates.length}</span>
+        <span className="px-2 py-0.5 rounded-full bg-rose-100 text-rose-700">거절 {rejected.length}</span>
+      </div>
+
+      {duplicates.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-amber-700">중복 항목 (이미 같은 사람·같은 파일명이 있음)</summary>
+          <ul className="mt-1 space-y-0.5 font-mono max-h-32 overflow-y-auto">
+            {duplicates.slice(0, MAX_LISTED).map(path => <li key={path} className="truncate" title={path}>{path}</li>)}
+            {duplicates.length > MAX_LISTED && <li className="text-gray-400">외 {duplicates.length - MAX_LISTED}개</li>}
+          </ul>
+        </details>
+      )}
+
+      {rejected.length > 0 && (
+        <details open={accepted.length === 0}>
+          <summary className="cursor-pointer text-rose-700">거절 항목</summary>
+          <ul className="mt-1 space-y-0.5 max-h-32 overflow-y-auto">
+            {rejected.slice(0, MAX_LISTED).map(({ path, reason }) => (
+              <li key={path} className="flex justify-between gap-2">
+                <span className="font-mono truncate" title={path}>{path}</span>
+                <span className="text-rose-600 flex-shrink-0">{reason}</span>
+              </li>
+            ))}
+            {rejected.length > MAX_LISTED && <li className="text-gray-400">외 {rejected.length - MAX_LISTED}개</li>}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
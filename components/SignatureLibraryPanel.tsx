@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react';
+import { Library, Search, Save, Download, Pencil, Trash2, Check, X } from 'lucide-react';
+import { SignatureFile } from '../types';
+import {
+  SignatureLibraryEntry,
+  SignatureLibraryEdit,
+  listLibraryEntries,
+  saveSignaturesToLibrary,
+  updateLibraryEntry,
+  deleteLibraryEntries,
+  filterLibraryEntries,
+} from '../services/signatureLibrary';
+
+interface SignatureLibraryPanelProps {
+  signatures: Map<string, SignatureFile[]>;
+  processing: boolean;
+  onLoad: (entries: SignatureLibraryEntry[]) => void;
+  onNotify: (msg: string) => void;
+  onError: (msg: string) => void;
+}
+
+const getErrorMessage = (err: unknown) => (err instanceof Error ? err.message : '알 수 없는 오류');
+
+const uniqueValues = (values: string[]) =>
+  Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b, 'ko'));
+
+/**
+ * 서명 보관함 패널
+ * - 현재 서명을 팀/현장 정보와 함께 저장하고, 검색·필터한 서명을 현재 작업으로 불러온다.
+ * - 보관함 목록과 썸네일 URL은 이 패널 안에서만 관리한다.
+ */
+export default function SignatureLibraryPanel(props: SignatureLibraryPanelProps) {
+  const { signatures, processing, onLoad, onNotify, onError } = props;
+
+  const [entries, setEntries] = useState<SignatureLibraryEntry[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [query, setQuery] = useState('');
+  const [teamFilter, setTeamFilter] = useState('');
+  const [siteFilter, setSiteFilter] = useState('');
+  const [saveMeta, setSaveMeta] = useState({ team: '', site: '' });
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ id: string; draft: SignatureLibraryEdit } | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listLibraryEntries());
+    } catch (err) {
+      onError(`서명 보관함을 읽을 수 없습니다: ${getErrorMessage(err)}`);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // 썸네일용 URL은 목록이 바뀔 때마다 새로 만들고 이전 것은 해제한다.
+  const [thumbnailUrls, setThumbnailUrls] = useState<Map<string, string>>(new Map());
+  useEffect(() => {
+    const urls = new Map(entries.map(entry => [entry.id, URL.createObjectURL(entry.blob)]));
+    setThumbnailUrls(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [entries]);
+
+  const teams = uniqueValues(entries.map(entry => entry.team));
+  const sites = uniqueValues(entries.map(entry => entry.site));
+  const visible = filterLibraryEntries(entries, { query, team: teamFilter, site: siteFilter });
+  const selectedVisible = visible.filter(entry => selectedIds.has(entry.id));
+  const disabled = processing || busy;
+
+  const runTask = async (task: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await task();
+    } catch (err) {
+      onError(`서명 보관함 작업 실패: ${getErrorMessage(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => runTask(async () => {
+    const { added, updated } = await saveSignaturesToLibrary(signatures, saveMeta);
+    await refresh();
+    onNotify(`서명 보관함에 저장했습니다. (새로 ${added}개, 갱신 ${updated}개)`);
+  });
+
+  const handleDelete = (ids: string[]) => {
+    if (ids.length === 0 || !window.confirm(`보관함에서 서명 ${ids.length}개를 삭제할까요?`)) return;
+    runTask(async () => {
+      await deleteLibraryEntries(ids);
+      setSelectedIds(prev => new Set(Array.from(prev).filter(id => !ids.includes(id))));
+      await refresh();
+    });
+  };
+
+  const handleEditSave = () => {
+    if (!editing) return;
+    const entry = entries.find(item => item.id === editing.id);
+    if (!entry) return;
+    runTask(async () => {
+      await updateLibraryEntry(entry, editing.draft);
+      setEditing(null);
+      await refresh();
+    });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const inputClass = 'rounded-lg border border-gray-300 px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-lg border-2 border-gray-100 space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2"><Library size={18} /> 서명 보관함</h3>
+        <p className="text-gray-500 text-sm">
+          자주 쓰는 서명을 이 브라우저에 보관해 두고 팀·현장별로 불러옵니다. ({entries.length}개 보관 중)
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          type="text"
+          value={saveMeta.team}
+          onChange={(e) => setSaveMeta(prev => ({ ...prev, team: e.target.value }))}
+          placeholder="팀 (선택)"
+          list="signature-library-teams"
+          disabled={disabled}
+          className={`${inputClass} w-32`}
+        />
+        <input
+          type="text"
+          value={saveMeta.site}
+          onChange={(e) => setSaveMeta(prev => ({ ...prev, site: e.target.value }))}
+          placeholder="현장 (선택)"
+          list="signature-library-sites"
+          disabled={disabled}
+          className={`${inputClass} w-32`}
+        />
+        <button
+          onClick={handleSave}
+          disabled={disabled || signatures.size === 0}
+          className="px-3 py-2 rounded-lg bg-gray-900 text-white font-medium hover:bg-gray-800 disabled:opacity-50 flex items-center gap-1"
+        >
+          <Save size={14} /> 현재 서명 저장
+        </button>
+        <datalist id="signature-library-teams">{teams.map(team => <option key={team} value={team} />)}</datalist>
+        <datalist id="signature-library-sites">{sites.map(site => <option key={site} value={site} />)}</datalist>
+      </div>
+
+      {entries.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <label className="relative flex-1 min-w-[160px]">
+              <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="이름, 사번, 팀, 현장 검색"
+                className={`${inputClass} w-full pl-7`}
+              />
+            </label>
+            <select value={teamFilter} onChange={(e) => setTeamFilter(e.target.value)} className={inputClass}>
+              <option value="">모든 팀</option>
+              {teams.map(team => <option key={team} value={team}>{team}</option>)}
+            </select>
+            <select value={siteFilter} onChange={(e) => setSiteFilter(e.target.value)} className={inputClass}>
+              <option value="">모든 현장</option>
+              {sites.map(site => <option key={site} value={site}>{site}</option>)}
+            </select>
+            <button
+              onClick={() => onLoad(selectedVisible.length > 0 ? selectedVisible : visible)}
+              disabled={disabled || visible.length === 0}
+              className="px-3 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1"
+            >
+              <Download size={14} /> {selectedVisible.length > 0 ? `선택 ${selectedVisible.length}개` : `검색 결과 ${visible.length}개`} 불러오기
+            </button>
+            <button
+              onClick={() => handleDelete(selectedVisible.map(entry => entry.id))}
+              disabled={disabled || selectedVisible.length === 0}
+              className="px-3 py-2 rounded-lg border border-rose-200 bg-rose-50 text-rose-700 font-medium hover:bg-rose-100 disabled:opacity-50 flex items-center gap-1"
+            >
+              <Trash2 size={14} /> 선택 삭제
+            </button>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto border border-gray-100 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600 text-xs sticky top-0">
+                <tr>
+                  <th className="p-2 w-8">
+                    <input
+                      type="checkbox"
+                      checked={visible.length > 0 && selectedVisible.length === visible.length}
+                      onChange={(e) => setSelectedIds(e.target.checked ? new Set(visible.map(entry => entry.id)) : new Set())}
+                      className="accent-indigo-600"
+                      aria-label="검색 결과 모두 선택"
+                    />
+                  </th>
+                  <th className="p-2 w-20 text-left">서명</th>
+                  <th className="p-2 text-left">이름</th>
+                  <th className="p-2 text-left">구분자</th>
+                  <th className="p-2 text-left">팀</th>
+                  <th className="p-2 text-left">현장</th>
+                  <th className="p-2 w-20"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visible.map(entry => {
+                  const draft = editing?.id === entry.id ? editing.draft : null;
+                  const setDraft = (changes: Partial<SignatureLibraryEdit>) =>
+                    setEditing(prev => (prev ? { ...prev, draft: { ...prev.draft, ...changes } } : prev));
+                  return (
+                    <tr key={entry.id}>
+                      <td className="p-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(entry.id)}
+                          onChange={() => toggleSelected(entry.id)}
+                          className="accent-indigo-600"
+                        />
+                      </td>
+                      <td className="p-2">
+                        <img src={thumbnailUrls.get(entry.id)} alt={entry.variant} title={entry.variant} className="h-8 w-16 object-contain" />
+                      </td>
+                      {draft ? (
+                        <>
+                          <td className="p-1"><input value={draft.name} onChange={(e) => setDraft({ name: e.target.value })} className={`${inputClass} w-full`} /></td>
+                          <td className="p-1"><input value={draft.qualifier} onChange={(e) => setDraft({ qualifier: e.target.value })} className={`${inputClass} w-full`} /></td>
+                          <td className="p-1"><input value={draft.team} onChange={(e) => setDraft({ team: e.target.value })} className={`${inputClass} w-full`} /></td>
+                          <td className="p-1"><input value={draft.site} onChange={(e) => setDraft({ site: e.target.value })} className={`${inputClass} w-full`} /></td>
+                          <td className="p-2 whitespace-nowrap text-right">
+                            <button onClick={handleEditSave} disabled={disabled} className="p-1 text-indigo-600 hover:text-indigo-800 disabled:opacity-50" aria-label="수정 저장"><Check size={14} /></button>
+                            <button onClick={() => setEditing(null)} className="p-1 text-gray-400 hover:text-gray-600" aria-label="수정 취소"><X size={14} /></button>
+                          </td>
+                        </>
+                      ) : (
+                        <>
+                          <td className="p-2 text-gray-800">{entry.name}</td>
+                          <td className="p-2 text-gray-500">{entry.qualifier || '-'}</td>
+                          <td className="p-2 text-gray-500">{entry.team || '-'}</td>
+                          <td className="p-2 text-gray-500">{entry.site || '-'}</td>
+                          <td className="p-2 whitespace-nowrap text-right">
+                            <button
+                              onClick={() => setEditing({ id: entry.id, draft: { name: entry.name, qualifier: entry.qualifier || '', team: entry.team, site: entry.site } })}
+                              disabled={disabled}
+                              className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-50"
+                              aria-label="수정"
+                            >
+                              <Pencil size={14} />
+                            </button>
+                            <button onClick={() => handleDelete([entry.id])} disabled={disabled} className="p-1 text-rose-500 hover:text-rose-700 disabled:opacity-50" aria-label="삭제">
+                              <Trash2 size={14} />
+                            </button>
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,13 @@
-import React from 'react';
-import { Download, FileSpreadsheet, FileText, Image as ImageIcon, RefreshCw, PackageOpen, SlidersHorizontal } from 'lucide-react';
-import { SheetPreviewModel } from '../services/alternativeExportService';
+import React, { useState } from 'react';
+import { Download, FileSpreadsheet, FileText, Image as ImageIcon, RefreshCw, PackageOpen, SlidersHorizontal, UserCheck, CalendarX, Users, ClipboardList, Hash, Save, Lock } from 'lucide-react';
+import { SheetPreviewModel, getSignaturePreviewTransform } from '../services/alternativeExportService';
+import { FuzzyMatchSuggestion, AttendanceException, AmbiguousRowReport, MatchReconciliation, PlaceholderTextOption, PlaceholderTextMode } from '../services/excelService';
+import { countReconciliationIssues, ROW_EXCLUSION_REASON_LABELS } from '../services/reconciliationReport';
+import { adjustAssignment, LockScope } from '../services/assignmentEditor';
+import { SignatureAssignment, SignatureFile } from '../types';
+import AssignmentEditorPanel, { SelectedPreviewCell } from './AssignmentEditorPanel';
+import AssignmentHistoryPanel from './AssignmentHistoryPanel';
+import { AssignmentHistory } from '../services/assignmentHistory';
 
 interface BatchProgress {
   current: number;
@@ -14,6 +21,15 @@ interface BatchProgress {
 interface SignatureWorkspaceProps {
   previewLoading: boolean;
   previewModel: SheetPreviewModel | null;
+  assignments: Map<string, SignatureAssignment>;
+  signatures: Map<string, SignatureFile[]>;
+  onAssignmentChange: (key: string, assignment: SignatureAssignment | null) => void;
+  onLockChange: (key: string, scope: LockScope, locked: boolean) => void;
+  assignmentHistory: AssignmentHistory;
+  onUndoAssignments: () => void;
+  onRedoAssignments: () => void;
+  onJumpToHistory: (index: number) => void;
+  onClearAssignments: () => void;
   processing: boolean;
   exportFormat: 'excel' | 'pdf' | 'png';
   variationStrength: number;
@@ -22,14 +38,28 @@ interface SignatureWorkspaceProps {
   onVariationStrengthChange: (value: number) => void;
   onBatchCountChange: (value: number) => void;
   onExportFormatChange: (format: 'excel' | 'pdf' | 'png') => void;
+  placeholderTextOption: PlaceholderTextOption;
+  onPlaceholderTextOptionChange: (option: PlaceholderTextOption) => void;
   onAutoMatch: () => void;
   onSingleExport: () => void;
   onBatchZipExport: () => void;
   onCancelBatchExport: () => void;
   isBatchCancelable: boolean;
   onStartOver: () => void;
+  onSaveProject: () => void;
   assignmentCount: number;
   rowCount: number;
+  fuzzySuggestions: FuzzyMatchSuggestion[];
+  attendanceExceptions: AttendanceException[];
+  ambiguousRows: AmbiguousRowReport[];
+  reconciliation: MatchReconciliation | null;
+  matchSeed: string | null;
+  matchEdited: boolean;
+  seedInput: string;
+  onSeedInputChange: (value: string) => void;
+  onDownloadReconciliation: () => void;
+  onAcceptNameSuggestion: (sheetName: string, signatureBaseName: string) => void;
+  onRejectNameSuggestion: (sheetName: string, signatureBaseName: string) => void;
 }
 
 /**
@@ -41,6 +71,15 @@ export default function SignatureWorkspace(props: SignatureWorkspaceProps) {
   const {
     previewLoading,
     previewModel,
+    assignments,
+    signatures,
+    onAssignmentChange,
+    onLockChange,
+    assignmentHistory,
+    onUndoAssignments,
+    onRedoAssignments,
+    onJumpToHistory,
+    onClearAssignments,
     processing,
     exportFormat,
     variationStrength,
@@ -49,19 +88,70 @@ export default function SignatureWorkspace(props: SignatureWorkspaceProps) {
     onVariationStrengthChange,
     onBatchCountChange,
     onExportFormatChange,
+    placeholderTextOption,
+    onPlaceholderTextOptionChange,
     onAutoMatch,
     onSingleExport,
     onBatchZipExport,
     onCancelBatchExport,
     isBatchCancelable,
     onStartOver,
+    onSaveProject,
     assignmentCount,
     rowCount,
+    fuzzySuggestions,
+    attendanceExceptions,
+    ambiguousRows,
+    reconciliation,
+    onDownloadReconciliation,
+    matchSeed,
+    matchEdited,
+    seedInput,
+    onSeedInputChange,
+    onAcceptNameSuggestion,
+    onRejectNameSuggestion,
   } = props;
 
+  const [selectedCell, setSelectedCell] = useState<SelectedPreviewCell | null>(null);
+  const [drag, setDrag] = useState<{ key: string; pointerId: number; startX: number; startY: number; dx: number; dy: number } | null>(null);
+
+  const selectedAssignment = selectedCell ? assignments.get(selectedCell.key) : undefined;
+  // 빈 칸에 추가할 때는 같은 행에 이미 배치된 사람을 기본값으로 제안
+  const defaultSignatureKey = selectedCell
+    ? Array.from(assignments.values()).find(assignment =>
+        (assignment.sheetIndex ?? 0) === selectedCell.sheetIndex && assignment.row === selectedCell.row
+      )?.signatureBaseName
+    : undefined;
+
+  const handleSignaturePointerDown = (e: React.PointerEvent<HTMLDivElement>, key: string) => {
+    if (processing || assignments.get(key)?.locked) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ key, pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, dx: 0, dy: 0 });
+  };
+
+  const handleSignaturePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    setDrag({ ...drag, dx: e.clientX - drag.startX, dy: e.clientY - drag.startY });
+  };
+
+  const handleSignaturePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    const assignment = assignments.get(drag.key);
+    // 클릭 수준의 미세한 흔들림은 이동으로 보지 않는다.
+    if (assignment && (Math.abs(drag.dx) >= 1 || Math.abs(drag.dy) >= 1)) {
+      onAssignmentChange(drag.key, adjustAssignment(assignment, {
+        offsetX: assignment.offsetX + drag.dx,
+        offsetY: assignment.offsetY + drag.dy,
+      }));
+    }
+    setDrag(null);
+  };
+
   return (
     <div className="grid grid-cols-1 xl:grid-cols-[320px_1fr] gap-4 h-[calc(100vh-96px)] p-4 bg-slate-100">
-      <aside className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 flex flex-col gap-5">
+      <aside className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 flex flex-col gap-5 overflow-y-auto">
         <div>
           <h2 className="text-lg font-semibold text-slate-900">Control Panel</h2>
           <p className="text-sm text-slate-500 mt-1">서명 변형과 배치 생성을 제어합니다.</p>
@@ -84,6 +174,31 @@ export default function SignatureWorkspace(props: SignatureWorkspaceProps) {
           <p className="text-xs text-slate-500">값이 높을수록 회전/크기/위치 편차가 커집니다.</p>
         </div>
 
+        <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 space-y-2">
+          <div className="flex items-center justify-between text-sm text-slate-700">
+            <span className="flex items-center gap-2 font-medium"><Hash size={14} />재현 시드</span>
+            {matchSeed && (
+              <span className="flex items-center gap-1">
+                <span className="font-mono text-xs text-indigo-700 select-all">{matchSeed}</span>
+                {matchEdited && (
+                  <span className="text-[11px] px-1.5 py-0.5 rounded bg-amber-100 text-amber-700" title="시드 실행 뒤 수동 편집되었거나 잠긴 배치가 유지되어 이 시드만으로는 재현되지 않습니다.">
+                    수동 편집
+                  </span>
+                )}
+              </span>
+            )}
+          </div>
+          <input
+            type="text"
+            value={seedInput}
+            onChange={(e) => onSeedInputChange(e.target.value)}
+            disabled={processing}
+            placeholder="비워두면 매번 새 시드"
+            className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <p className="text-xs text-slate-500">같은 파일·서명·강도에 같은 시드를 넣고 다시 매칭하면 동일한 배치가 재현됩니다. 시드는 내보낸 파일에 기록됩니다.</p>
+        </div>
+
         <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 space-y-3">
           <label className="text-sm font-medium text-slate-700 block">일괄 생성 파일 개수 (N)</label>
           <input
@@ -125,6 +240,37 @@ export default function SignatureWorkspace(props: SignatureWorkspaceProps) {
           </button>
         </div>
 
+        {exportFormat === 'excel' && (
+          <div className="space-y-1.5">
+            <label className="text-xs font-medium text-slate-600">서명 칸의 기존 표시(1, o 등)</label>
+            <select
+              value={placeholderTextOption.mode}
+              onChange={(e) => {
+                const mode = e.target.value as PlaceholderTextMode;
+                onPlaceholderTextOptionChange(mode === 'replace'
+                  ? { mode, text: placeholderTextOption.text || new Date().toLocaleDateString('ko-KR') }
+                  : { ...placeholderTextOption, mode });
+              }}
+              disabled={processing}
+              className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="keep">그대로 두기</option>
+              <option value="clear">서명한 칸만 지우기</option>
+              <option value="replace">서명한 칸만 텍스트로 바꾸기</option>
+            </select>
+            {placeholderTextOption.mode === 'replace' && (
+              <input
+                type="text"
+                value={placeholderTextOption.text ?? ''}
+                onChange={(e) => onPlaceholderTextOptionChange({ ...placeholderTextOption, text: e.target.value })}
+                disabled={processing}
+                placeholder="예: 서명 일자"
+                className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-2 gap-2">
           <button
             onClick={onAutoMatch}
@@ -142,6 +288,14 @@ export default function SignatureWorkspace(props: SignatureWorkspaceProps) {
           </button>
         </div>
 
+        <button
+          onClick={onSaveProject}
+          disabled={processing}
+          className="w-full px-4 py-2.5 rounded-xl border border-indigo-200 text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 font-medium flex items-center justify-center gap-2"
+        >
+          <Save size={15} /> 프로젝트 저장 (.ssproj)
+        </button>
+
         <button
           onClick={onStartOver}
           className="w-full px-4 py-2.5 rounded-xl border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 font-medium flex items-center justify-center gap-2"
@@ -186,25 +340,203 @@ export default function SignatureWorkspace(props: SignatureWorkspaceProps) {
           </div>
         )}
 
+        <AssignmentHistoryPanel
+          history={assignmentHistory}
+          processing={processing}
+          onUndo={onUndoAssignments}
+          onRedo={onRedoAssignments}
+          onJump={onJumpToHistory}
+          onClearAll={onClearAssignments}
+        />
+
+        {selectedCell && (
+          <AssignmentEditorPanel
+            cell={selectedCell}
+            assignment={selectedAssignment}
+            signatures={signatures}
+            defaultSignatureKey={defaultSignatureKey}
+            processing={processing}
+            onAssignmentChange={onAssignmentChange}
+            onLockChange={(scope, locked) => onLockChange(selectedCell.key, scope, locked)}
+            onClose={() => setSelectedCell(null)}
+          />
+        )}
+
+        {fuzzySuggestions.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-xl p-3 space-y-2">
+            <p className="text-sm font-medium text-amber-900 flex items-center gap-2">
+              <UserCheck size={14} /> 이름 확인 필요 ({fuzzySuggestions.length}건)
+            </p>
+            <ul className="space-y-2 max-h-48 overflow-y-auto">
+              {fuzzySuggestions.map((suggestion) => {
+                const best = suggestion.candidates[0];
+                return (
+                  <li key={suggestion.sheetName} className="text-xs text-amber-900 bg-white rounded-lg border border-amber-100 p-2">
+                    <p>
+                      <span className="font-semibold">{suggestion.rawName}</span>
+                      {' → '}
+                      <span className="font-semibold">{best.signatureBaseName}</span>
+                      <span className="text-amber-700"> ({Math.round(best.confidence * 100)}%, {suggestion.occurrences}행)</span>
+                    </p>
+                    <div className="flex gap-1 mt-1.5">
+                      <button
+                        onClick={() => onAcceptNameSuggestion(suggestion.sheetName, best.signatureBaseName)}
+                        disabled={processing}
+                        className="px-2 py-1 rounded-md bg-amber-600 text-white font-medium hover:bg-amber-700 disabled:opacity-50"
+                      >
+                        적용
+                      </button>
+                      <button
+                        onClick={() => onRejectNameSuggestion(suggestion.sheetName, best.signatureBaseName)}
+                        disabled={processing}
+                        className="px-2 py-1 rounded-md bg-white border border-amber-300 text-amber-800 font-medium hover:bg-amber-100 disabled:opacity-50"
+                      >
+                        다른 사람
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        {attendanceExceptions.length > 0 && (
+          <div className="bg-rose-50 border border-rose-200 rounded-xl p-3 space-y-2">
+            <p className="text-sm font-medium text-rose-900 flex items-center gap-2">
+              <CalendarX size={14} /> 출석 기록 없음 ({attendanceExceptions.length}칸 미서명)
+            </p>
+            <ul className="space-y-1 max-h-40 overflow-y-auto text-xs text-rose-900">
+              {attendanceExceptions.map((exception) => (
+                <li key={`${exception.sheetName}-${exception.address}`} className="flex justify-between gap-2">
+                  <span>{exception.personName} · {exception.date}</span>
+                  <span className="text-rose-700">
+                    {exception.address} {exception.reason === 'not-in-log' ? '(명단에 없음)' : '(결석)'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {ambiguousRows.length > 0 && (
+          <div className="bg-orange-50 border border-orange-200 rounded-xl p-3 space-y-2">
+            <p className="text-sm font-medium text-orange-900 flex items-center gap-2">
+              <Users size={14} /> 동명이인 확인 필요 ({ambiguousRows.length}행 미서명)
+            </p>
+            <p className="text-[11px] text-orange-800">서명 파일명을 '이름@사번_1.png' 형식으로 구분하거나 시트에 사번/소속/생년월일 열을 추가하세요.</p>
+            <ul className="space-y-1 max-h-40 overflow-y-auto text-xs text-orange-900">
+              {ambiguousRows.map((ambiguous) => (
+                <li key={`${ambiguous.sheetName}-${ambiguous.address}`} className="flex justify-between gap-2">
+                  <span>
+                    {ambiguous.personName}
+                    {ambiguous.identities.length > 0 && <span className="text-orange-700"> ({ambiguous.identities.join(', ')})</span>}
+                  </span>
+                  <span className="text-orange-700 text-right">
+                    {ambiguous.sheetName} {ambiguous.address} · {ambiguous.reason === 'identity-mismatch' ? '일치하는 서명 없음' : `후보 ${ambiguous.candidateKeys.length}개`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {reconciliation && (
+          <div className="bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium text-slate-800 flex items-center gap-2">
+                <ClipboardList size={14} /> 매칭 대사 결과
+              </p>
+              <button
+                onClick={onDownloadReconciliation}
+                disabled={countReconciliationIssues(reconciliation) === 0}
+                className="px-2 py-1 rounded-md border border-slate-300 bg-white text-xs font-medium text-slate-700 hover:bg-slate-100 disabled:opacity-50 flex items-center gap-1"
+              >
+                <Download size={12} /> CSV
+              </button>
+            </div>
+            {countReconciliationIssues(reconciliation) === 0 ? (
+              <p className="text-xs text-emerald-700">모든 성명과 서명 파일이 빠짐없이 매칭되었습니다.</p>
+            ) : (
+              <div className="space-y-1 text-xs text-slate-700">
+                {reconciliation.unmatchedNames.length > 0 && (
+                  <details>
+                    <summary className="cursor-pointer">서명 파일 없는 성명 <span className="font-semibold">{reconciliation.unmatchedNames.length}명</span></summary>
+                    <ul className="mt-1 ml-3 max-h-32 overflow-y-auto space-y-0.5">
+                      {reconciliation.unmatchedNames.map((entry) => (
+                        <li key={`${entry.sheetName}-${entry.personName}`}>
+                          {entry.personName} <span className="text-slate-500">({entry.sheetName} {entry.rows.join(', ')}행{entry.hasSuggestion ? ', 확인 대기' : ''})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                {reconciliation.unusedSignatures.length > 0 && (
+                  <details>
+                    <summary className="cursor-pointer">사용되지 않은 서명 <span className="font-semibold">{reconciliation.unusedSignatures.length}명</span></summary>
+                    <ul className="mt-1 ml-3 max-h-32 overflow-y-auto space-y-0.5">
+                      {reconciliation.unusedSignatures.map((entry) => (
+                        <li key={entry.signatureKey}>
+                          {entry.signatureKey} <span className="text-slate-500">({entry.fileNames.length}개 파일)</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                {reconciliation.mergedInteriorSkips.length > 0 && (
+                  <details>
+                    <summary className="cursor-pointer">병합셀 내부라 건너뛴 칸 <span className="font-semibold">{reconciliation.mergedInteriorSkips.length}칸</span></summary>
+                    <ul className="mt-1 ml-3 max-h-32 overflow-y-auto space-y-0.5">
+                      {reconciliation.mergedInteriorSkips.map((entry) => (
+                        <li key={`${entry.sheetName}-${entry.address}`}>
+                          {entry.sheetName} {entry.address} <span className="text-slate-500">({entry.personName})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                {reconciliation.excludedRows.length > 0 && (
+                  <details>
+                    <summary className="cursor-pointer">제외 규칙으로 서명하지 않은 행 <span className="font-semibold">{reconciliation.excludedRows.length}행</span></summary>
+                    <ul className="mt-1 ml-3 max-h-32 overflow-y-auto space-y-0.5">
+                      {reconciliation.excludedRows.map((entry) => (
+                        <li key={`${entry.sheetName}-${entry.address}`}>
+                          {entry.personName} <span className="text-slate-500">({entry.sheetName} {entry.row}행 · {ROW_EXCLUSION_REASON_LABELS[entry.reason]}{entry.detail ? `: ${entry.detail}` : ''})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                {reconciliation.skippedSheets.length > 0 && (
+                  <p>
+                    성명 헤더가 없어 건너뛴 시트: <span className="font-semibold">{reconciliation.skippedSheets.map(entry => entry.sheetName).join(', ')}</span>
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="mt-auto bg-slate-50 rounded-xl border border-slate-200 p-3 text-xs text-slate-600 space-y-1">
           <p>배치된 서명: <span className="font-semibold text-slate-800">{assignmentCount}개</span></p>
           <p>프리뷰 행 수: <span className="font-semibold text-slate-800">{rowCount}행</span></p>
+          <p>잠긴 서명: <span className="font-semibold text-slate-800">{Array.from(assignments.values()).filter(assignment => assignment.locked).length}개</span></p>
         </div>
       </aside>
 
       <section className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
         <div className="px-5 py-3 border-b border-slate-200 bg-slate-50">
           <h3 className="text-sm font-semibold text-slate-800">Live Preview</h3>
-          <p className="text-xs text-slate-500">병합 셀 구조와 서명 오버레이 상태를 실시간으로 확인합니다.</p>
+          <p className="text-xs text-slate-500">칸을 클릭해 서명을 추가·삭제·교체하고, 서명을 끌어서 위치를 조정합니다.{previewLoading && previewModel ? ' (갱신 중...)' : ''}</p>
         </div>
 
         <div className="flex-1 overflow-auto p-4 bg-slate-100">
           <div className="inline-block min-w-full bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
-            {previewLoading && (
+            {previewLoading && !previewModel && (
               <div className="p-10 text-center text-slate-500 text-sm">미리보기 렌더링 중입니다...</div>
             )}
 
-            {!previewLoading && previewModel && (
+            {previewModel && (
               <table className="border-collapse w-full table-auto">
                 <tbody>
                   {previewModel.rows.map((row) => (
@@ -212,12 +544,27 @@ export default function SignatureWorkspace(props: SignatureWorkspaceProps) {
                       {row.cells.map((cell) => {
                         if (cell.hidden) return null;
 
+                        const isSelected = selectedCell?.key === cell.assignmentKey;
+                        const dragOffset = drag?.key === cell.assignmentKey ? `translate(${drag.dx}px, ${drag.dy}px) ` : '';
+                        // 회전/크기/위치 조정은 모델 재생성을 기다리지 않고 현재 assignments로 즉시 그린다.
+                        const liveAssignment = assignments.get(cell.assignmentKey);
+                        const signatureTransform = liveAssignment ? getSignaturePreviewTransform(liveAssignment) : cell.signature?.transform;
+
                         return (
                           <td
                             key={cell.key}
                             rowSpan={cell.rowSpan}
                             colSpan={cell.colSpan}
-                            className="border-r border-slate-200 px-2 py-1 text-xs sm:text-sm relative min-w-[64px]"
+                            onClick={() => setSelectedCell({
+                              key: cell.assignmentKey,
+                              row: cell.row,
+                              col: cell.col,
+                              sheetIndex: previewModel.sheetIndex,
+                              sheetName: previewModel.sheetName,
+                            })}
+                            className={`border-r border-slate-200 px-2 py-1 text-xs sm:text-sm relative min-w-[64px] cursor-pointer ${
+                              isSelected ? 'outline outline-2 -outline-offset-2 outline-indigo-500 bg-indigo-50/40' : ''
+                            }`}
                             style={{
                               fontFamily: cell.style.fontFamily,
                               fontSize: cell.style.fontSize,
@@ -230,20 +577,39 @@ export default function SignatureWorkspace(props: SignatureWorkspaceProps) {
                             <div className="relative w-full h-full min-h-[34px] flex items-center justify-center">
                               <span className="z-0 text-slate-700 whitespace-pre-wrap break-words">{cell.text}</span>
 
-                              {cell.signature && (
-                                <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none">
+                              {cell.signature && liveAssignment && (
+                                <div
+                                  className={`absolute inset-0 z-10 flex items-center justify-center touch-none ${liveAssignment.locked ? '' : 'cursor-move'}`}
+                                  onPointerDown={(e) => {
+                                    setSelectedCell({
+                                      key: cell.assignmentKey,
+                                      row: cell.row,
+                                      col: cell.col,
+                                      sheetIndex: previewModel.sheetIndex,
+                                      sheetName: previewModel.sheetName,
+                                    });
+                                    handleSignaturePointerDown(e, cell.assignmentKey);
+                                  }}
+                                  onPointerMove={handleSignaturePointerMove}
+                                  onPointerUp={handleSignaturePointerUp}
+                                  onPointerCancel={() => setDrag(null)}
+                                >
                                   <img
                                     src={cell.signature.src}
                                     alt="signature-preview"
-                                    className="drop-shadow-sm mix-blend-multiply"
+                                    draggable={false}
+                                    className="drop-shadow-sm mix-blend-multiply pointer-events-none"
                                     style={{
-                                      transform: cell.signature.transform,
+                                      transform: dragOffset + signatureTransform,
                                       opacity: cell.signature.opacity,
                                       maxWidth: '130%',
                                       maxHeight: '130%',
                                       objectFit: 'contain',
                                     }}
                                   />
+                                  {liveAssignment.locked && (
+                                    <Lock size={10} className="absolute top-0.5 right-0.5 text-amber-600" />
+                                  )}
                                 </div>
                               )}
                             </div>
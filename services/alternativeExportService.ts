@@ -2,10 +2,12 @@ import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
 import ExcelJS from 'exceljs';
 import { SignatureAssignment, SignatureFile } from '../types';
+import { ExportProvenance, formatSeedProvenance } from './excelService';
 import { columnLetterToNumber, isSignaturePlaceholder, parsePrintAreaBounds } from './excelUtils';
 
 export interface PreviewCellModel {
   key: string;
+  assignmentKey: string; // assignments Map 키 (s{sheetIndex}:{row}:{col})
   row: number;
   col: number;
   text: string;
@@ -33,11 +35,19 @@ export interface PreviewRowModel {
 }
 
 export interface SheetPreviewModel {
+  sheetIndex: number;
+  sheetName: string;
   rows: PreviewRowModel[];
   printAreaRows: { start: number; end: number };
   printAreaCols: { start: number; end: number };
 }
 
+/**
+ * 서명 오버레이 CSS transform (미리보기 모델과 워크스페이스 즉시 반영에 공용)
+ */
+export const getSignaturePreviewTransform = (assignment: SignatureAssignment) =>
+  `translate(${assignment.offsetX}px, ${assignment.offsetY}px) rotate(${assignment.rotation}deg) scale(${assignment.scale})`;
+
 /**
  * 병합 범위 문자열(예: A1:C3)을 파싱한다.
  * - 잘못된 범위 문자열은 null로 반환하여 호출부에서 안전하게 무시한다.
@@ -158,7 +168,7 @@ export const buildSheetPreviewModel = async (
           // 글자/테두리 가림을 줄이기 위해 투명도와 blend를 함께 사용한다.
           signature = {
             src: sigFile.previewUrl,
-            transform: `translate(${assignment.offsetX}px, ${assignment.offsetY}px) rotate(${assignment.rotation}deg) scale(${assignment.scale})`,
+            transform: getSignaturePreviewTransform(assignment),
             opacity: 0.78,
           };
         }
@@ -169,6 +179,7 @@ export const buildSheetPreviewModel = async (
 
       const previewCell: PreviewCellModel = {
         key: `${r}-${c}`,
+        assignmentKey: scopedKey,
         row: r,
         col: c,
         text: displayValue,
@@ -197,6 +208,8 @@ export const buildSheetPreviewModel = async (
   }
 
   return {
+    sheetIndex: resolvedWorksheetIndex,
+    sheetName: worksheet.name,
     rows,
     printAreaRows,
     printAreaCols,
@@ -388,7 +401,8 @@ export const exportToPDF = async (
   originalBuffer: ArrayBuffer,
   assignments: Map<string, SignatureAssignment>,
   signaturesMap: Map<string, SignatureFile[]>,
-  filename: string = 'export.pdf'
+  filename: string = 'export.pdf',
+  provenance: ExportProvenance = {}
 ): Promise<void> => {
   console.log('[PDF 내보내기] 시작...');
   
@@ -408,6 +422,11 @@ export const exportToPDF = async (
     format: 'a4'
   });
 
+  // 감사 재현용 시드는 PDF 문서 속성에 기록
+  if (provenance.seed) {
+    pdf.setProperties({ subject: `SafetySignPro seed: ${formatSeedProvenance(provenance)}`, keywords: provenance.seed });
+  }
+
   let imgData = canvas.toDataURL('image/png');
   
   // 이미지를 PDF에 추가 (여러 페이지가 필요한 경우 처리)
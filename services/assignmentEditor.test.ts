@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { SignatureAssignment } from '../types';
+import {
+  MANUAL_EDIT_LIMITS,
+  adjustAssignment,
+  createManualAssignment,
+  getAssignmentKey,
+  setAssignmentsLocked,
+} from './assignmentEditor';
+
+describe('수동 배치 편집', () => {
+  it('빈 셀에 추가한 서명은 기본 배치값을 쓴다', () => {
+    expect(createManualAssignment({ row: 3, col: 2, sheetIndex: 1, sheetName: '2월' }, '홍길동', '홍길동_1.png')).toEqual({
+      row: 3,
+      col: 2,
+      sheetIndex: 1,
+      sheetName: '2월',
+      signatureBaseName: '홍길동',
+      signatureVariantId: '홍길동_1.png',
+      rotation: 0,
+      scale: 1.25,
+      offsetX: 0,
+      offsetY: 0,
+    });
+  });
+
+  it('회전, 크기, 위치 조정값을 허용 범위로 자른다', () => {
+    const base = createManualAssignment({ row: 2, col: 2, sheetIndex: 0 }, '홍길동', '홍길동_1.png');
+    const adjusted = adjustAssignment({ ...base, matchConfidence: 0.8 }, { rotation: 45.4, scale: 3, offsetX: -99, offsetY: 12.6 });
+    expect(adjusted).toMatchObject({
+      rotation: MANUAL_EDIT_LIMITS.rotation.max,
+      scale: MANUAL_EDIT_LIMITS.scale.max,
+      offsetX: MANUAL_EDIT_LIMITS.offset.min,
+      offsetY: 13,
+      matchConfidence: 0.8,
+    });
+    expect(adjustAssignment(base, { scale: 1.23456 }).scale).toBe(1.235);
+  });
+});
+
+describe('setAssignmentsLocked', () => {
+  const place = (row: number, col: number, name: string, sheetIndex = 0): [string, SignatureAssignment] => [
+    getAssignmentKey(sheetIndex, row, col),
+    createManualAssignment({ row, col, sheetIndex }, name, `${name}_1.png`),
+  ];
+  const assignments = new Map([
+    place(2, 2, '홍길동'),
+    place(2, 4, '김철수'),
+    place(3, 2, '홍길동'),
+    place(2, 2, '이영희', 1),
+  ]);
+  const target = assignments.get('s0:2:2')!;
+  const lockedKeys = (map: Map<string, SignatureAssignment>) =>
+    Array.from(map.entries()).filter(([, assignment]) => assignment.locked).map(([key]) => key);
+
+  it.each([
+    ['cell', ['s0:2:2']],
+    ['row', ['s0:2:2', 's0:2:4']], // 다른 시트의 같은 행은 제외
+    ['person', ['s0:2:2', 's0:3:2']],
+  ] as const)('%s 범위만 잠근다', (scope, expected) => {
+    const result = setAssignmentsLocked(assignments, target, scope, true);
+    expect(lockedKeys(result.assignments)).toEqual(expected);
+    expect(result.changedCount).toBe(expected.length);
+    expect(lockedKeys(assignments)).toEqual([]); // 원본 Map은 그대로
+  });
+
+  it('행/사람 잠금은 범위를 기록하고 그 안의 칸을 풀면 범위도 해제한다', () => {
+    const rowLocked = setAssignmentsLocked(assignments, target, 'row', true);
+    expect(rowLocked.lockScopes.rows).toEqual(new Set(['s0:2']));
+    const personLocked = setAssignmentsLocked(rowLocked.assignments, target, 'person', true, rowLocked.lockScopes);
+    expect(personLocked.lockScopes.persons).toEqual(new Set(['홍길동']));
+
+    const cellUnlocked = setAssignmentsLocked(personLocked.assignments, target, 'cell', false, personLocked.lockScopes);
+    expect(cellUnlocked.lockScopes.rows.size).toBe(0);
+    expect(cellUnlocked.lockScopes.persons.size).toBe(0);
+    expect(setAssignmentsLocked(assignments, target, 'cell', true).lockScopes.rows.size).toBe(0);
+  });
+
+  it('이미 같은 상태인 칸은 세지 않고 해제하면 locked 속성을 지운다', () => {
+    const locked = setAssignmentsLocked(assignments, target, 'cell', true).assignments;
+    const relocked = setAssignmentsLocked(locked, target, 'row', true);
+    expect(relocked.changedCount).toBe(1);
+
+    const unlocked = setAssignmentsLocked(relocked.assignments, target, 'row', false);
+    expect(unlocked.changedCount).toBe(2);
+    expect(unlocked.assignments.get('s0:2:2')).not.toHaveProperty('locked');
+  });
+});
@@ -0,0 +1,129 @@
+import { AssignmentLockScopes, SignatureAssignment } from '../types';
+
+/**
+ * Live Preview 셀 단위 수동 편집 헬퍼
+ * - 편집 결과는 assignments Map에 그대로 기록되어 Excel/PDF/PNG 내보내기에 반영된다.
+ * - 내보내기 단계에서도 셀 경계 클램프가 적용되므로 여기서는 조작 가능한 범위만 제한한다.
+ */
+
+export const MANUAL_EDIT_LIMITS = {
+  rotation: { min: -20, max: 20, step: 1 },
+  scale: { min: 0.6, max: 1.8, step: 0.05 },
+  offset: { min: -30, max: 30, step: 1 },
+};
+
+/** 수동 추가 시 기본 배치값 (자동 매칭 스케일 범위의 중앙값) */
+const DEFAULT_MANUAL_SCALE = 1.25;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * assignments Map 키 생성 (autoMatch와 동일한 시트 범위 키)
+ */
+export const getAssignmentKey = (sheetIndex: number, row: number, col: number) => `s${sheetIndex}:${row}:${col}`;
+
+/**
+ * 빈 셀에 서명을 수동으로 추가
+ */
+export const createManualAssignment = (
+  target: { row: number; col: number; sheetIndex: number; sheetName?: string },
+  signatureKey: string,
+  variantId: string
+): SignatureAssignment => ({
+  row: target.row,
+  col: target.col,
+  sheetIndex: target.sheetIndex,
+  ...(target.sheetName ? { sheetName: target.sheetName } : {}),
+  signatureBaseName: signatureKey,
+  signatureVariantId: variantId,
+  rotation: 0,
+  scale: DEFAULT_MANUAL_SCALE,
+  offsetX: 0,
+  offsetY: 0,
+});
+
+/**
+ * 회전/스케일/오프셋 변경 (범위 밖 값은 잘라낸다)
+ * - 수동으로 손본 배치는 퍼지 매칭 신뢰도 표시가 의미 없으므로 유지만 한다.
+ */
+export const adjustAssignment = (
+  assignment: SignatureAssignment,
+  changes: Partial<Pick<SignatureAssignment, 'rotation' | 'scale' | 'offsetX' | 'offsetY'>>
+): SignatureAssignment => {
+  const { rotation, scale, offset } = MANUAL_EDIT_LIMITS;
+  return {
+    ...assignment,
+    rotation: clamp(Math.round(changes.rotation ?? assignment.rotation), rotation.min, rotation.max),
+    scale: Number(clamp(changes.scale ?? assignment.scale, scale.min, scale.max).toFixed(3)),
+    offsetX: clamp(Math.round(changes.offsetX ?? assignment.offsetX), offset.min, offset.max),
+    offsetY: clamp(Math.round(changes.offsetY ?? assignment.offsetY), offset.min, offset.max),
+  };
+};
+
+/**
+ * 같은 사람의 다른 서명 variant로 교체
+ */
+export const swapAssignmentVariant = (
+  assignment: SignatureAssignment,
+  signatureKey: string,
+  variantId: string
+): SignatureAssignment => ({
+  ...assignment,
+  signatureBaseName: signatureKey,
+  signatureVariantId: variantId,
+});
+
+export type LockScope = 'cell' | 'row' | 'person';
+
+export const createLockScopes = (): AssignmentLockScopes => ({ rows: new Set(), persons: new Set() });
+
+/**
+ * 행 잠금 키 (assignments Map 키에서 열을 뺀 형식)
+ */
+export const getRowLockKey = (sheetIndex: number, row: number) => `s${sheetIndex}:${row}`;
+
+/**
+ * 잠금 설정/해제
+ * - cell: 선택한 칸, row: 같은 시트·같은 행의 모든 서명, person: 같은 서명 키를 쓰는 모든 칸
+ * - row/person 잠금은 범위 자체도 기록해 재매칭이 그 행/사람에게 새 칸을 채우지 않게 한다.
+ * - 잠금을 풀면 풀린 칸이 속한 행/사람 범위도 함께 해제한다. (범위가 남으면 풀린 칸이 재매칭에서 비워짐)
+ */
+export const setAssignmentsLocked = (
+  assignments: Map<string, SignatureAssignment>,
+  target: SignatureAssignment,
+  scope: LockScope,
+  locked: boolean,
+  lockScopes: AssignmentLockScopes = createLockScopes()
+): { assignments: Map<string, SignatureAssignment>; lockScopes: AssignmentLockScopes; changedCount: number } => {
+  const next = new Map(assignments);
+  const rows = new Set(lockScopes.rows);
+  const persons = new Set(lockScopes.persons);
+  let changedCount = 0;
+
+  const releaseScopes = (assignment: SignatureAssignment) => {
+    rows.delete(getRowLockKey(assignment.sheetIndex ?? 0, assignment.row));
+    persons.delete(assignment.signatureBaseName);
+  };
+
+  next.forEach((assignment, key) => {
+    const inScope = scope === 'person'
+      ? assignment.signatureBaseName === target.signatureBaseName
+      : (assignment.sheetIndex ?? 0) === (target.sheetIndex ?? 0) &&
+        assignment.row === target.row &&
+        (scope === 'row' || assignment.col === target.col);
+
+    if (!inScope) return;
+    if (!locked) releaseScopes(assignment);
+    if (!!assignment.locked === locked) return;
+
+    const { locked: _previous, ...rest } = assignment;
+    next.set(key, locked ? { ...rest, locked: true } : rest);
+    changedCount++;
+  });
+
+  if (locked && scope === 'row') rows.add(getRowLockKey(target.sheetIndex ?? 0, target.row));
+  if (locked && scope === 'person') persons.add(target.signatureBaseName);
+  if (!locked) releaseScopes(target);
+
+  return { assignments: next, lockScopes: { rows, persons }, changedCount };
+};
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SignatureAssignment } from '../types';
+import {
+  canRedoAssignments,
+  canUndoAssignments,
+  createAssignmentHistory,
+  moveAssignmentHistory,
+  pushAssignmentHistory,
+} from './assignmentHistory';
+import { createLockScopes } from './assignmentEditor';
+
+const state = (label: string, size = 0) => ({
+  label,
+  assignments: new Map<string, SignatureAssignment>(
+    Array.from({ length: size }, (_, i) => [`s0:${i + 2}:2`, {
+      row: i + 2, col: 2, sheetIndex: 0, signatureBaseName: '홍길동', signatureVariantId: '홍길동_1.png',
+      rotation: 0, scale: 1.25, offsetX: 0, offsetY: 0,
+    }])
+  ),
+  matchSeed: 'seed',
+  matchEdited: false,
+  lockScopes: createLockScopes(),
+});
+
+describe('assignmentHistory', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('되돌린 뒤 새 변경이 생기면 다시 실행 분기를 버린다', () => {
+    let history = createAssignmentHistory(state('자동 매칭'));
+    history = pushAssignmentHistory(history, state('C2 서명 추가', 1));
+    history = pushAssignmentHistory(history, state('C3 서명 추가', 2));
+    expect(canUndoAssignments(history)).toBe(true);
+    expect(canRedoAssignments(history)).toBe(false);
+
+    history = moveAssignmentHistory(history, 0);
+    expect(canUndoAssignments(history)).toBe(false);
+    expect(canRedoAssignments(history)).toBe(true);
+
+    history = pushAssignmentHistory(history, { ...state('전체 삭제'), matchEdited: true });
+    expect(history.entries.map(entry => entry.label)).toEqual(['자동 매칭', '전체 삭제']);
+    expect(history.index).toBe(1);
+    expect(history.entries[1].matchEdited).toBe(true);
+  });
+
+  it('같은 칸의 연속 조정은 병합 시간 안에서만 한 항목으로 합친다', () => {
+    let history = createAssignmentHistory(state('자동 매칭'));
+    history = pushAssignmentHistory(history, { ...state('C2 회전', 1), mergeKey: 's0:2:2:adjust' });
+    vi.advanceTimersByTime(500);
+    history = pushAssignmentHistory(history, { ...state('C2 회전', 1), mergeKey: 's0:2:2:adjust' });
+    expect(history.entries).toHaveLength(2);
+
+    vi.advanceTimersByTime(2000);
+    history = pushAssignmentHistory(history, { ...state('C2 회전', 1), mergeKey: 's0:2:2:adjust' });
+    history = pushAssignmentHistory(history, { ...state('C3 회전', 1), mergeKey: 's0:3:2:adjust' });
+    expect(history.entries).toHaveLength(4);
+  });
+
+  it('범위 밖 위치로는 이동하지 않는다', () => {
+    const history = pushAssignmentHistory(createAssignmentHistory(state('자동 매칭')), state('C2 서명 추가', 1));
+    expect(moveAssignmentHistory(history, 5)).toBe(history);
+    expect(moveAssignmentHistory(history, -1)).toBe(history);
+  });
+});
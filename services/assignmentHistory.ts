@@ -0,0 +1,71 @@
+import { AssignmentLockScopes, SignatureAssignment } from '../types';
+
+/**
+ * 서명 배치(assignments) 변경 이력 (실행 취소/다시 실행)
+ * - assignments Map은 변경 시 항상 새 Map으로 교체되므로 참조만 보관해도 안전하다.
+ * - 이력 중간으로 되돌린 뒤 새 변경이 생기면 그 이후(다시 실행 분기)는 버린다.
+ */
+
+const MAX_HISTORY_ENTRIES = 50;
+/** 같은 칸을 연속으로 미세 조정하면 한 항목으로 합친다. */
+const MERGE_WINDOW_MS = 1500;
+
+export interface AssignmentHistoryEntry {
+  id: number;
+  label: string; // 이력 목록 표시용 (예: '자동 매칭', 'C5 서명 수정')
+  timestamp: number;
+  assignments: Map<string, SignatureAssignment>;
+  matchSeed: string | null;
+  matchEdited: boolean; // 시드 실행 뒤 수동 편집 여부 (AppState.matchEdited)
+  lockScopes: AssignmentLockScopes; // 행/사람 잠금 범위 (잠금 전환도 실행 취소 대상)
+  mergeKey?: string; // 연속 편집 병합 기준 (예: 셀 키 + 작업 종류)
+}
+
+export interface AssignmentHistory {
+  entries: AssignmentHistoryEntry[];
+  index: number; // 현재 상태를 가리키는 entries 위치 (-1: 이력 없음)
+}
+
+let nextEntryId = 1;
+
+export const createAssignmentHistory = (
+  initial?: { label: string; assignments: Map<string, SignatureAssignment>; matchSeed: string | null; matchEdited: boolean; lockScopes: AssignmentLockScopes }
+): AssignmentHistory => {
+  if (!initial) return { entries: [], index: -1 };
+  return {
+    entries: [{ id: nextEntryId++, timestamp: Date.now(), ...initial }],
+    index: 0,
+  };
+};
+
+/**
+ * 새 배치 상태를 이력에 추가
+ */
+export const pushAssignmentHistory = (
+  history: AssignmentHistory,
+  entry: { label: string; assignments: Map<string, SignatureAssignment>; matchSeed: string | null; matchEdited: boolean; lockScopes: AssignmentLockScopes; mergeKey?: string }
+): AssignmentHistory => {
+  const now = Date.now();
+  const kept = history.entries.slice(0, history.index + 1);
+  const last = kept[kept.length - 1];
+
+  if (entry.mergeKey && last?.mergeKey === entry.mergeKey && now - last.timestamp < MERGE_WINDOW_MS) {
+    kept[kept.length - 1] = { ...last, ...entry, timestamp: now };
+    return { entries: kept, index: kept.length - 1 };
+  }
+
+  const entries = [...kept, { id: nextEntryId++, timestamp: now, ...entry }].slice(-MAX_HISTORY_ENTRIES);
+  return { entries, index: entries.length - 1 };
+};
+
+export const canUndoAssignments = (history: AssignmentHistory) => history.index > 0;
+
+export const canRedoAssignments = (history: AssignmentHistory) => history.index < history.entries.length - 1;
+
+/**
+ * 이력의 특정 위치로 이동 (범위 밖이면 그대로)
+ */
+export const moveAssignmentHistory = (history: AssignmentHistory, index: number): AssignmentHistory => {
+  if (index < 0 || index >= history.entries.length || index === history.index) return history;
+  return { ...history, index };
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { parseAttendanceLog, summarizeAttendanceLog } from './attendanceService';
+
+const csvFile = (lines: string[], name = 'attendance.csv') => new File([`\uFEFF${lines.join('\r\n')}`], name, { type: 'text/csv' });
+
+describe('parseAttendanceLog', () => {
+  it('성명·사번·날짜 열을 찾고 결석 표시 행은 제외한다', async () => {
+    const log = await parseAttendanceLog(csvFile([
+      '안전교육 출석부',
+      '성명,사번,교육일,출결',
+      '홍길동,A-001,2024-03-04,출석',
+      '"김 철수",,2024.03.05,',
+      '이영희,A-003,2024-03-04,결석',
+      '박민수,,날짜 미상,',
+    ]));
+
+    expect(log.records).toEqual([
+      { name: '홍길동', employeeId: 'A-001', date: '2024-03-04' },
+      { name: '김 철수', date: '2024-03-05' },
+    ]);
+    expect(log.byName.get('김철수')).toEqual(new Set(['2024-03-05']));
+    expect(log.byEmployeeId.size).toBe(1);
+    expect(summarizeAttendanceLog(log)).toEqual({ recordCount: 2, personCount: 2, firstDate: '2024-03-04', lastDate: '2024-03-05' });
+  });
+
+  it('성명과 날짜 열이 없으면 오류를 낸다', async () => {
+    await expect(parseAttendanceLog(csvFile(['이름없음,값', 'a,b']))).rejects.toThrow("'성명(또는 사번)'과 '날짜' 열");
+  });
+});
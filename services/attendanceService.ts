@@ -0,0 +1,220 @@
+import ExcelJS from 'exceljs';
+import { AttendanceLog, AttendanceRecord } from '../types';
+import { normalizeName, normalizeQualifier } from './excelService';
+import { DateParseContext, dateToIsoDate, excelSerialToIsoDate, parseDateText } from './excelUtils';
+
+/**
+ * 출석 기록(CSV/XLSX) 가져오기
+ * - 한 행이 "한 사람의 한 번 출석"인 세로형 기록을 읽는다. (성명 또는 사번 + 날짜)
+ * - 출결 상태 열이 있으면 결석/불참 표시 행은 제외한다.
+ */
+
+const LOG_NAME_HEADER = /(성명|이름|name)/i;
+const LOG_ID_HEADER = /(사번|사원번호|직원번호|employeeid|empid|^id$)/i;
+const LOG_DATE_HEADER = /(날짜|일자|출석일|교육일|date)/i;
+const LOG_STATUS_HEADER = /(출결|출석여부|참석여부|상태|status|attend)/i;
+const ABSENT_STATUS = /^(결석|불참|미참석|absent|no|n|x|✗|×)$/i;
+const MAX_LOG_HEADER_SEARCH_ROWS = 10;
+
+type RawCell = string | Date | number | null;
+
+/**
+ * CSV 한 줄을 필드 배열로 분해 (따옴표/이스케이프된 따옴표 지원)
+ */
+const parseCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current);
+  return fields;
+};
+
+/**
+ * CSV 파일 디코딩
+ * - 엑셀에서 저장한 한글 CSV는 CP949(EUC-KR)인 경우가 많아 UTF-8 실패 시 재시도한다.
+ */
+const decodeCsv = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('euc-kr').decode(buffer);
+  }
+};
+
+const readCsvRows = async (file: File): Promise<RawCell[][]> => {
+  const text = decodeCsv(await file.arrayBuffer());
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  const delimiter = lines[0]?.includes('\t') && !lines[0].includes(',') ? '\t' : ',';
+  return lines.map(line => parseCsvLine(line, delimiter));
+};
+
+const readXlsxRows = async (file: File): Promise<RawCell[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(await file.arrayBuffer());
+  } catch {
+    throw new Error('출석 기록 파일을 읽을 수 없습니다. XLSX 또는 CSV 형식인지 확인해주세요.');
+  }
+
+  const worksheet = workbook.worksheets.find(sheet => sheet.actualRowCount > 0);
+  if (!worksheet) {
+    throw new Error('출석 기록 파일에 데이터가 없습니다.');
+  }
+
+  const rows: RawCell[][] = [];
+  worksheet.eachRow((row) => {
+    const values: RawCell[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+      const value = cell.value;
+      let raw: RawCell = null;
+      if (value instanceof Date || typeof value === 'number') {
+        raw = value;
+      } else if (value !== null && value !== undefined) {
+        raw = typeof value === 'object' && 'result' in value
+          ? (value.result instanceof Date ? value.result : String(value.result ?? ''))
+          : cell.text;
+      }
+      values[colNumber - 1] = raw;
+    });
+    rows.push(values);
+  });
+  return rows;
+};
+
+const toText = (value: RawCell | undefined): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return dateToIsoDate(value) || '';
+  return String(value).trim();
+};
+
+const parseLogDate = (value: RawCell | undefined, context: DateParseContext): string | null => {
+  if (value instanceof Date) return dateToIsoDate(value);
+  if (typeof value === 'number') return excelSerialToIsoDate(value);
+  return parseDateText(toText(value), context);
+};
+
+/**
+ * 출석 레코드 목록으로 성명/사번별 출석일 인덱스를 구성
+ * - 프로젝트 파일 복원처럼 레코드만 저장된 경우에도 재사용한다.
+ */
+export const buildAttendanceLog = (fileName: string, records: AttendanceRecord[]): AttendanceLog => {
+  const byName = new Map<string, Set<string>>();
+  const byEmployeeId = new Map<string, Set<string>>();
+
+  const addToIndex = (index: Map<string, Set<string>>, key: string, date: string) => {
+    const dates = index.get(key) || new Set<string>();
+    dates.add(date);
+    index.set(key, dates);
+  };
+
+  for (const record of records) {
+    const normalized = normalizeName(record.name);
+    if (normalized) addToIndex(byName, normalized, record.date);
+    const normalizedId = normalizeQualifier(record.employeeId);
+    if (normalizedId) addToIndex(byEmployeeId, normalizedId, record.date);
+  }
+
+  return { fileName, records, byName, byEmployeeId };
+};
+
+/**
+ * 출석 기록 파일을 파싱해 성명/사번별 출석일 인덱스를 만든다.
+ */
+export const parseAttendanceLog = async (file: File): Promise<AttendanceLog> => {
+  const isCsv = /\.(csv|tsv|txt)$/i.test(file.name);
+  const rows = isCsv ? await readCsvRows(file) : await readXlsxRows(file);
+
+  let headerIndex = -1;
+  let nameCol = -1;
+  let idCol = -1;
+  let dateCol = -1;
+  let statusCol = -1;
+
+  for (let r = 0; r < Math.min(MAX_LOG_HEADER_SEARCH_ROWS, rows.length); r++) {
+    const headers = (rows[r] || []).map(cell => toText(cell).replace(/[\s\u00A0\uFEFF]+/g, ''));
+    const foundDate = headers.findIndex(text => LOG_DATE_HEADER.test(text));
+    const foundName = headers.findIndex(text => LOG_NAME_HEADER.test(text));
+    const foundId = headers.findIndex(text => LOG_ID_HEADER.test(text));
+
+    if (foundDate !== -1 && (foundName !== -1 || foundId !== -1)) {
+      headerIndex = r;
+      dateCol = foundDate;
+      nameCol = foundName;
+      idCol = foundId;
+      statusCol = headers.findIndex(text => LOG_STATUS_HEADER.test(text));
+      break;
+    }
+  }
+
+  if (headerIndex === -1) {
+    throw new Error("출석 기록에서 '성명(또는 사번)'과 '날짜' 열을 찾을 수 없습니다.");
+  }
+
+  // 연도가 생략된 날짜(3/5 등)는 업로드 시점 연도를 기준으로 해석한다.
+  const context: DateParseContext = { year: new Date().getFullYear() };
+  const records: AttendanceRecord[] = [];
+  let skippedRows = 0;
+
+  for (let r = headerIndex + 1; r < rows.length; r++) {
+    const row = rows[r] || [];
+    const name = nameCol !== -1 ? toText(row[nameCol]) : '';
+    const employeeId = idCol !== -1 ? toText(row[idCol]) : '';
+    if (!name && !employeeId) continue;
+
+    if (statusCol !== -1 && ABSENT_STATUS.test(toText(row[statusCol]).replace(/\s+/g, ''))) {
+      continue;
+    }
+
+    const date = parseLogDate(row[dateCol], context);
+    if (!date) {
+      skippedRows++;
+      continue;
+    }
+
+    records.push({ name, ...(employeeId ? { employeeId } : {}), date });
+  }
+
+  if (records.length === 0) {
+    throw new Error('출석 기록에서 유효한 날짜가 있는 행을 찾지 못했습니다.');
+  }
+
+  const log = buildAttendanceLog(file.name, records);
+  console.log(`[출석기록] ${file.name}: ${records.length}건 (인원 ${log.byName.size || log.byEmployeeId.size}명, 날짜 해석 실패 ${skippedRows}행)`);
+
+  return log;
+};
+
+/**
+ * 출석 기록 요약 (업로드 카드 표시용)
+ */
+export const summarizeAttendanceLog = (log: AttendanceLog) => {
+  const dates = log.records.map(record => record.date).sort();
+  return {
+    recordCount: log.records.length,
+    personCount: Math.max(log.byName.size, log.byEmployeeId.size),
+    firstDate: dates[0],
+    lastDate: dates[dates.length - 1],
+  };
+};
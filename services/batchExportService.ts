@@ -1,6 +1,7 @@
 import JSZip from 'jszip';
 import { SignatureFile, SheetData } from '../types';
-import { autoMatchSignatures, generateFinalExcel } from './excelService';
+import { autoMatchSignatures, generateFinalExcel, hasMatchLocks, AutoMatchOptions, ExcelExportOptions } from './excelService';
+import { generateRandomSeed } from './excelUtils';
 
 export interface BatchExportProgress {
   current: number;
@@ -18,6 +19,13 @@ export interface BatchExcelZipOptions {
   sourceFileName: string;
   count: number;
   variationStrength: number;
+  matchOptions?: AutoMatchOptions; // 이름 별칭 등 단일 매칭과 공유하는 추가 옵션
+  excelOptions?: ExcelExportOptions; // placeholder 텍스트 처리 등 단일 내보내기와 공유하는 옵션
+  /**
+   * 재현용 기준 시드: 회차별 시드는 getBatchFileSeed(seed, 순번)으로 파생된다.
+   * - 미지정 시 새 기준 시드를 생성하며, 어느 경우든 ZIP의 시드목록.csv에 기록된다.
+   */
+  seed?: string;
   onProgress?: (progress: BatchExportProgress) => void;
   signal?: AbortSignal;
 }
@@ -31,6 +39,11 @@ const throwIfAborted = (signal?: AbortSignal) => {
   }
 };
 
+/**
+ * 일괄 생성 회차별 시드 (1-based 순번)
+ */
+export const getBatchFileSeed = (baseSeed: string, sequence: number) => `${baseSeed}-${sequence}`;
+
 /**
  * N개의 무작위 서명 버전을 생성해 ZIP Blob으로 반환
  *
@@ -38,6 +51,7 @@ const throwIfAborted = (signal?: AbortSignal) => {
  * 1) 매 회차 autoMatchSignatures를 다시 호출해 완전히 독립된 랜덤 배치를 생성한다.
  * 2) 생성 단계와 ZIP 압축 단계를 분리해 진행률을 명확히 전달한다.
  * 3) 루프 중 setTimeout(0)으로 이벤트 루프를 양보해 브라우저 멈춤 현상을 완화한다.
+ * 4) 회차마다 파생 시드를 사용하고 목록을 남겨 특정 파일을 그대로 재현할 수 있게 한다.
  */
 export const buildBatchExcelZip = async (options: BatchExcelZipOptions): Promise<Blob> => {
   const {
@@ -47,10 +61,17 @@ export const buildBatchExcelZip = async (options: BatchExcelZipOptions): Promise
     sourceFileName,
     count,
     variationStrength,
+    matchOptions,
+    excelOptions,
+    seed,
     onProgress,
     signal,
   } = options;
 
+  const baseSeed = seed || generateRandomSeed();
+  // 잠긴 배치는 모든 파일에 그대로 들어가므로 회차 시드만으로는 재현되지 않는다.
+  const edited = hasMatchLocks(matchOptions);
+  const seedManifest: string[] = ['파일명,시드'];
   const total = Math.max(1, Math.min(50, count));
   const zip = new JSZip();
   const HIGH_VOLUME_THRESHOLD = 20;
@@ -75,15 +96,18 @@ export const buildBatchExcelZip = async (options: BatchExcelZipOptions): Promise
     await new Promise(resolve => setTimeout(resolve, mode === 'high-volume' ? 16 : 0));
     throwIfAborted(signal);
 
-    const assignments = autoMatchSignatures(sheetData, signatures, { variationStrength });
-    const excelBlob = await generateFinalExcel(originalBuffer, assignments, signatures);
+    const fileSeed = getBatchFileSeed(baseSeed, index + 1);
+    const assignments = autoMatchSignatures(sheetData, signatures, { ...matchOptions, variationStrength, seed: fileSeed });
+    const excelBlob = await generateFinalExcel(originalBuffer, assignments, signatures, { seed: fileSeed, edited }, excelOptions);
     throwIfAborted(signal);
 
     // JSZip에는 ArrayBuffer로 넣어 메모리 복사 오버헤드를 줄인다.
     const fileBuffer = await excelBlob.arrayBuffer();
     const sequence = String(index + 1).padStart(2, '0');
+    const fileName = `서명완료_${timestamp}_${baseFileName}_${sequence}.xlsx`;
 
-    zip.file(`서명완료_${timestamp}_${baseFileName}_${sequence}.xlsx`, fileBuffer);
+    zip.file(fileName, fileBuffer);
+    seedManifest.push(`"${fileName.replace(/"/g, '""')}",${fileSeed}`);
 
     onProgress?.({
       current: index + 1,
@@ -97,6 +121,9 @@ export const buildBatchExcelZip = async (options: BatchExcelZipOptions): Promise
     });
   }
 
+  // 엑셀에서 한글이 깨지지 않도록 BOM 포함
+  zip.file('시드목록.csv', '\uFEFF' + seedManifest.join('\r\n'));
+
   const compressionLevel = mode === 'high-volume' ? 3 : 6;
 
   throwIfAborted(signal);
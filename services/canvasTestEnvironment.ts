@@ -0,0 +1,148 @@
+import { Canvas, Image, ImageData, createCanvas, loadImage } from '@napi-rs/canvas';
+
+/**
+ * 테스트용 브라우저 캔버스 환경 (@napi-rs/canvas)
+ * - 서명 이미지 정리/내보내기가 쓰는 document.createElement('canvas'), Image, createImageBitmap,
+ *   ImageData를 Node에서 같은 이름으로 제공한다. Blob URL은 fetch로 읽는다.
+ * - exifOrientation: 'ignore'이면 EXIF 방향을 무시하는 브라우저 디코더처럼 APP1 세그먼트를 빼고 디코딩한다.
+ */
+
+export interface CanvasEnvironmentOptions {
+  exifOrientation: 'apply' | 'ignore';
+}
+
+const environmentOptions: CanvasEnvironmentOptions = { exifOrientation: 'apply' };
+
+const readUrl = async (url: string) => Buffer.from(await (await fetch(url)).arrayBuffer());
+
+/**
+ * JPEG에서 EXIF(APP1) 세그먼트 제거
+ */
+export const stripJpegExif = (bytes: Buffer): Buffer => {
+  if (bytes.readUInt16BE(0) !== 0xFFD8) return bytes;
+
+  const kept: Buffer[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    const marker = bytes.readUInt16BE(offset);
+    if (marker === 0xFFDA) break;
+    const end = offset + 2 + bytes.readUInt16BE(offset + 2);
+    if (marker !== 0xFFE1) kept.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  kept.push(bytes.subarray(offset));
+  return Buffer.concat(kept);
+};
+
+/**
+ * JPEG SOI 바로 뒤에 EXIF Orientation(0x0112) 태그 하나짜리 APP1 세그먼트를 넣는다. (휴대폰 사진 흉내)
+ */
+export const withJpegOrientation = (bytes: Buffer, orientation: number): Buffer => {
+  const app1 = Buffer.alloc(36);
+  app1.writeUInt16BE(0xFFE1, 0);
+  app1.writeUInt16BE(34, 2); // 길이 필드 이후 전체 (길이 필드 포함)
+  app1.write('Exif\0\0', 4, 'binary');
+  app1.write('MM', 10, 'binary');
+  app1.writeUInt16BE(0x002A, 12);
+  app1.writeUInt32BE(8, 14); // IFD0 오프셋 (TIFF 헤더 기준)
+  app1.writeUInt16BE(1, 18); // 항목 수
+  app1.writeUInt16BE(0x0112, 20);
+  app1.writeUInt16BE(3, 22); // SHORT
+  app1.writeUInt32BE(1, 24);
+  app1.writeUInt16BE(orientation, 28);
+  return Buffer.concat([bytes.subarray(0, 2), app1, bytes.subarray(2)]);
+};
+
+/**
+ * Blob URL도 src로 받는 Image (로드 완료 시 onload 호출)
+ * - drawImage에 그대로 넘길 수 있도록 @napi-rs/canvas Image 인스턴스의 src만 바꿔 끼운다.
+ */
+const BlobUrlImage = function () {
+  const image = new Image();
+  const nativeSrc = Object.getOwnPropertyDescriptor(Image.prototype, 'src')!;
+  Object.defineProperty(image, 'src', {
+    get: () => nativeSrc.get!.call(image),
+    set: (value: string) => {
+      if (!value) return;
+      readUrl(value).then(
+        bytes => nativeSrc.set!.call(image, bytes),
+        error => image.onerror?.(error)
+      );
+    },
+  });
+  return image;
+} as unknown as typeof Image;
+
+const createBrowserCanvas = (): Canvas => {
+  const canvas = createCanvas(300, 150);
+  return Object.assign(canvas, {
+    toBlob(callback: (blob: Blob | null) => void, type = 'image/png') {
+      const bytes = type === 'image/jpeg' ? canvas.toBuffer('image/jpeg') : canvas.toBuffer('image/png');
+      const blob = new Blob([new Uint8Array(bytes)], { type: type === 'image/jpeg' ? type : 'image/png' });
+      setTimeout(() => callback(blob), 0);
+    },
+  });
+};
+
+export const setCanvasEnvironmentOptions = (options: Partial<CanvasEnvironmentOptions>) => {
+  Object.assign(environmentOptions, options);
+};
+
+export const installCanvasEnvironment = () => {
+  Object.assign(globalThis, {
+    window: globalThis,
+    document: { createElement: (tag: string) => (tag === 'canvas' ? createBrowserCanvas() : null) },
+    Image: BlobUrlImage,
+    ImageData,
+    createImageBitmap: async (source: Blob) => {
+      let bytes: Buffer = Buffer.from(await source.arrayBuffer());
+      if (environmentOptions.exifOrientation === 'ignore') bytes = stripJpegExif(bytes);
+      const image = await loadImage(bytes);
+      return Object.assign(image, { close: () => {} });
+    },
+  });
+};
+
+/**
+ * 색 사각형을 그린 테스트 이미지 (fill: [x, y, width, height, CSS 색])
+ */
+export const drawFixture = (
+  width: number,
+  height: number,
+  background: string,
+  fills: [number, number, number, number, string][] = []
+): Canvas => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  for (const [x, y, w, h, color] of fills) {
+    ctx.fillStyle = color;
+    ctx.fillRect(x, y, w, h);
+  }
+  return canvas;
+};
+
+/**
+ * 테스트 이미지를 업로드 파일처럼 쓸 수 있는 Blob으로 인코딩
+ */
+export const fixtureToBlob = (canvas: Canvas, type: 'image/png' | 'image/jpeg' = 'image/png'): Blob => {
+  const bytes = type === 'image/jpeg' ? canvas.toBuffer('image/jpeg') : canvas.toBuffer('image/png');
+  return new Blob([new Uint8Array(bytes)], { type });
+};
+
+/**
+ * PNG/JPEG Blob을 픽셀 데이터로 읽는다.
+ */
+export const readPixels = async (blob: Blob) => {
+  const image = await loadImage(Buffer.from(await blob.arrayBuffer()));
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  const { data, width, height } = ctx.getImageData(0, 0, image.width, image.height);
+  return {
+    width,
+    height,
+    at: (x: number, y: number) => Array.from(data.subarray((y * width + x) * 4, (y * width + x) * 4 + 4)),
+  };
+};
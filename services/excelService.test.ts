@@ -0,0 +1,471 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import ExcelJS from 'exceljs';
+import { CellData, SheetData, SignatureFile } from '../types';
+import { createManualAssignment } from './assignmentEditor';
+import { buildAttendanceLog } from './attendanceService';
+import { drawFixture, installCanvasEnvironment } from './canvasTestEnvironment';
+import { DEFAULT_PLACEHOLDER_RULES, DEFAULT_ROW_EXCLUSION_RULES } from './excelUtils';
+import {
+  PlaceholderTextOption,
+  appendSeedToDescription,
+  autoMatchSignatures,
+  autoMatchSignaturesDetailed,
+  detectTransposedHeader,
+  findRepeatedHeaderRows,
+  formatSeedProvenance,
+  generateFinalExcel,
+  getSignatureKey,
+  hasLockedAssignments,
+  hasMatchLocks,
+  normalizeName,
+} from './excelService';
+
+const columnLetter = (col: number) => String.fromCharCode(64 + col);
+
+/** 2차원 배열(1행 1열부터)로 시트 데이터 생성 */
+const buildSheet = (grid: (string | number | null)[][], extra: Partial<SheetData> = {}): SheetData => ({
+  name: 'Sheet1',
+  sheetIndex: 0,
+  rows: grid.map((values, r) => ({
+    index: r + 1,
+    cells: values
+      .map((value, c): CellData => ({ value, address: `${columnLetter(c + 1)}${r + 1}`, row: r + 1, col: c + 1 }))
+      .filter(cell => cell.value !== null),
+  })),
+  ...extra,
+});
+
+const buildSignatures = (...names: string[]): Map<string, SignatureFile[]> =>
+  new Map(names.map(name => [name, [{ name, variant: `${name}_1.png`, previewUrl: `blob:${name}`, width: 200, height: 80 }]]));
+
+describe('detectTransposedHeader', () => {
+  const known = (names: string[]) => (cleanName: string) => names.map(normalizeName).includes(cleanName);
+
+  it('좌우로 나란한 세로 명단의 데이터 행을 가로 명단으로 보지 않는다', () => {
+    const sheet = buildSheet([
+      ['성명', '서명', '성명', '서명'],
+      ['홍길동', 1, '김철수', 1],
+    ]);
+    expect(detectTransposedHeader(sheet, known(['홍길동', '김철수']))).toBeNull();
+  });
+
+  it('성명이 헤더 행에 나열된 가로 명단을 찾는다', () => {
+    const sheet = buildSheet([
+      ['날짜', '홍길동', '김철수', '이영희'],
+      ['2024-03-01', 1, 1, 1],
+    ]);
+    expect(detectTransposedHeader(sheet, known(['홍길동', '김철수', '이영희']))).toEqual({
+      headerRow: 1,
+      nameCol: 2,
+      layout: 'transposed',
+    });
+  });
+
+  it('세로 성명 헤더가 있어도 그 열에 아는 성명이 없으면 가로 명단으로 본다', () => {
+    const sheet = buildSheet([
+      ['구분/성명', '홍길동', '김철수'],
+      ['1회차', 1, 1],
+    ]);
+    expect(detectTransposedHeader(sheet, known(['홍길동', '김철수']))?.layout).toBe('transposed');
+  });
+});
+
+describe('autoMatchSignatures', () => {
+  it('좌우 두 명단 블록에 각각 서명한다', () => {
+    const sheet = buildSheet([
+      ['성명', '서명', '성명', '서명'],
+      ['홍길동', 1, '김철수', 1],
+    ]);
+    const assignments = autoMatchSignatures(sheet, buildSignatures('홍길동', '김철수'), { seed: 'test' });
+    expect(Array.from(assignments.keys()).sort()).toEqual(['s0:2:2', 's0:2:4']);
+    expect(assignments.get('s0:2:2')?.signatureBaseName).toBe('홍길동');
+    expect(assignments.get('s0:2:4')?.signatureBaseName).toBe('김철수');
+  });
+
+  it('좌우 블록의 서명 칸은 가장 가까운 왼쪽 성명 열의 사람에게 묶는다', () => {
+    const sheet = buildSheet([
+      ['성명', '1회', '2회', '이름', '1회', '2회'],
+      ['홍길동', 1, 1, '김철수', 1, 1],
+      ['이영희', 1, 1, null, 1, null],
+    ]);
+    const signatures = buildSignatures('홍길동', '김철수', '이영희');
+    const sheetMappings = new Map([[0, { headerRow: 1, nameCol: 1, extraNameCols: [4] }]]);
+    const assignments = autoMatchSignatures(sheet, signatures, { seed: 'blocks', sheetMappings });
+    expect(Array.from(assignments.entries()).map(([key, value]) => [key, value.signatureBaseName]).sort()).toEqual([
+      ['s0:2:2', '홍길동'],
+      ['s0:2:3', '홍길동'],
+      ['s0:2:5', '김철수'],
+      ['s0:2:6', '김철수'],
+      ['s0:3:2', '이영희'],
+      ['s0:3:3', '이영희'],
+    ]);
+  });
+
+  it('잠긴 배치는 다른 시드로 다시 매칭해도 그대로 유지한다', () => {
+    const sheet = buildSheet([
+      ['성명', '서명'],
+      ['홍길동', 1],
+      ['김철수', 1],
+    ]);
+    const signatures = buildSignatures('홍길동', '김철수');
+    const first = autoMatchSignatures(sheet, signatures, { seed: 'first' });
+    const locked = { ...first.get('s0:2:2')!, locked: true };
+
+    const rematched = autoMatchSignatures(sheet, signatures, {
+      seed: 'second',
+      lockedAssignments: new Map([['s0:2:2', locked]]),
+    });
+    expect(rematched.get('s0:2:2')).toEqual(locked);
+    expect(rematched.get('s0:3:2')?.signatureBaseName).toBe('김철수');
+  });
+
+  it('잠긴 행과 사람에게는 새 placeholder도 채우지 않는다', () => {
+    const sheet = buildSheet([
+      ['성명', '1회', '2회'],
+      ['홍길동', 1, 1],
+      ['김철수', 1, 1],
+      ['이영희', 1, 1],
+    ]);
+    const signatures = buildSignatures('홍길동', '김철수', '이영희');
+    const first = autoMatchSignatures(sheet, signatures, { seed: 'first' });
+    const lockedKim = { ...first.get('s0:3:2')!, locked: true };
+    const lockedLee = { ...first.get('s0:4:2')!, locked: true };
+
+    const rematched = autoMatchSignatures(sheet, signatures, {
+      seed: 'second',
+      lockedAssignments: new Map([['s0:3:2', lockedKim], ['s0:4:2', lockedLee]]),
+      lockScopes: { rows: new Set(['s0:3']), persons: new Set(['이영희']) },
+    });
+    expect(Array.from(rematched.keys()).sort()).toEqual(['s0:2:2', 's0:2:3', 's0:3:2', 's0:4:2']);
+    expect(rematched.get('s0:3:2')).toEqual(lockedKim);
+    expect(rematched.get('s0:4:2')).toEqual(lockedLee);
+  });
+
+  it('서명이 하나도 없어도 잠긴 배치는 유지한다', () => {
+    const sheet = buildSheet([
+      ['성명', '서명'],
+      ['홍길동', 1],
+    ]);
+    const locked = { ...autoMatchSignatures(sheet, buildSignatures('홍길동'), { seed: 's' }).get('s0:2:2')!, locked: true };
+    const rematched = autoMatchSignatures(sheet, new Map(), { lockedAssignments: new Map([['s0:2:2', locked]]) });
+    expect(Array.from(rematched.entries())).toEqual([['s0:2:2', locked]]);
+  });
+});
+
+describe('시드 재현', () => {
+  const sheet = buildSheet([
+    ['성명', '서명'],
+    ['홍길동', 1],
+    ['김철수', 1],
+    ['이영희', 1],
+  ]);
+  const signatures = buildSignatures('홍길동', '김철수', '이영희');
+
+  it('같은 시드는 같은 배치를, 다른 시드는 다른 배치를 만든다', () => {
+    const first = autoMatchSignatures(sheet, signatures, { seed: 'audit-1' });
+    const again = autoMatchSignatures(sheet, signatures, { seed: 'audit-1' });
+    const other = autoMatchSignatures(sheet, signatures, { seed: 'audit-2' });
+    expect(Array.from(again.entries())).toEqual(Array.from(first.entries()));
+    expect(Array.from(other.entries())).not.toEqual(Array.from(first.entries()));
+  });
+
+  it('수동 편집된 배치는 시드 옆에 표시하고 이전 시드 줄은 교체한다', () => {
+    expect(formatSeedProvenance({ seed: 'audit-1' })).toBe('audit-1');
+    expect(formatSeedProvenance({ seed: 'audit-1', edited: true })).toBe('audit-1 (manually edited)');
+
+    const described = appendSeedToDescription('점검표\nSafetySignPro seed: old', formatSeedProvenance({ seed: 'audit-1', edited: true }));
+    expect(described).toBe('점검표\nSafetySignPro seed: audit-1 (manually edited)');
+  });
+
+  it('잠긴 배치가 있으면 재매칭 결과도 수동 편집으로 본다', () => {
+    const assignments = autoMatchSignatures(sheet, signatures, { seed: 'audit-1' });
+    expect(hasLockedAssignments(assignments)).toBe(false);
+    const key = 's0:2:2';
+    assignments.set(key, { ...assignments.get(key)!, locked: true });
+    expect(hasLockedAssignments(assignments)).toBe(true);
+    expect(hasMatchLocks({ lockScopes: { rows: new Set(), persons: new Set(['홍길동']) } })).toBe(true);
+    expect(hasMatchLocks({ lockScopes: { rows: new Set(), persons: new Set() } })).toBe(false);
+  });
+});
+
+describe('placeholder 규칙', () => {
+  const signatures = buildSignatures('홍길동', '김철수');
+
+  it('사용자 문자열 규칙에 맞는 칸에만 서명한다', () => {
+    const sheet = buildSheet([
+      ['성명', '서명'],
+      ['홍길동', '(인)'],
+      ['김철수', '1'],
+    ]);
+    const placeholderRules = { ...DEFAULT_PLACEHOLDER_RULES, literals: ['(인)'] };
+    expect(Array.from(autoMatchSignatures(sheet, signatures, { seed: 'p', placeholderRules }).keys())).toEqual(['s0:2:2']);
+  });
+
+  it('서명 헤더 아래 빈 칸은 옵션을 켰을 때만 서명한다', () => {
+    const sheet = buildSheet([
+      ['성명', '서명'],
+      ['홍길동', ''],
+    ]);
+    expect(autoMatchSignatures(sheet, signatures, { seed: 'p' }).size).toBe(0);
+    const placeholderRules = { ...DEFAULT_PLACEHOLDER_RULES, blankUnderSignatureHeader: true };
+    expect(Array.from(autoMatchSignatures(sheet, signatures, { seed: 'p', placeholderRules }).keys())).toEqual(['s0:2:2']);
+  });
+});
+
+describe('명단 행 제외 규칙', () => {
+  const buildRoster = () => {
+    const sheet = buildSheet([
+      ['성명', '서명', '비고'],
+      ['홍길동', 1, null],
+      ['김철수', 1, '퇴사'],
+      ['이영희', 1, null],
+      ['박민수', 1, null],
+      ['최지훈', 1, null],
+    ]);
+    sheet.rows[3].cells[0].strike = true;
+    sheet.rows[4].hidden = true;
+    sheet.rows[5].cells[0].fill = 'FFD9D9D9';
+    return sheet;
+  };
+  const signatures = buildSignatures('홍길동', '김철수', '이영희', '박민수', '최지훈');
+
+  it('비고, 취소선, 숨긴 행, 배경색 규칙에 해당하는 행은 서명하지 않고 사유를 남긴다', () => {
+    const rowExclusionRules = { ...DEFAULT_ROW_EXCLUSION_RULES, fillColors: ['#D9D9D9'] };
+    const result = autoMatchSignaturesDetailed(buildRoster(), signatures, { seed: 'x', rowExclusionRules });
+    expect(Array.from(result.assignments.keys())).toEqual(['s0:2:2']);
+    expect(result.reconciliation.excludedRows.map(row => [row.personName, row.reason])).toEqual([
+      ['김철수', 'status'],
+      ['이영희', 'strikethrough'],
+      ['박민수', 'hidden'],
+      ['최지훈', 'fill'],
+    ]);
+  });
+
+  it('규칙을 끄면 해당 행도 서명한다', () => {
+    const rowExclusionRules = { ...DEFAULT_ROW_EXCLUSION_RULES, statusKeywords: [], strikethrough: false, hiddenRows: false };
+    const result = autoMatchSignaturesDetailed(buildRoster(), signatures, { seed: 'x', rowExclusionRules });
+    expect(result.assignments.size).toBe(5);
+    expect(result.reconciliation.excludedRows).toEqual([]);
+  });
+});
+
+describe('출석 기록 모드', () => {
+  it('날짜 헤더 열에는 그날 출석한 사람만 서명하고 나머지는 예외로 남긴다', () => {
+    const sheet = buildSheet([
+      ['성명', '2024-03-04', '2024-03-05'],
+      ['홍길동', 1, 1],
+      ['김철수', 1, 1],
+      ['이영희', 1, 1],
+    ]);
+    const attendanceLog = buildAttendanceLog('log.csv', [
+      { name: '홍길동', date: '2024-03-04' },
+      { name: '홍길동', date: '2024-03-05' },
+      { name: '김철수', date: '2024-03-04' },
+    ]);
+    const signatures = buildSignatures('홍길동', '김철수', '이영희');
+    const result = autoMatchSignaturesDetailed(sheet, signatures, { seed: 'a', attendanceLog });
+
+    expect(Array.from(result.assignments.keys()).sort()).toEqual(['s0:2:2', 's0:2:3', 's0:3:2']);
+    expect(result.attendanceExceptions.map(entry => [entry.address, entry.date, entry.reason])).toEqual([
+      ['C3', '2024-03-05', 'absent'],
+      ['B4', '2024-03-04', 'not-in-log'],
+      ['C4', '2024-03-05', 'not-in-log'],
+    ]);
+  });
+});
+
+describe('동명이인 구분', () => {
+  const signatures = new Map<string, SignatureFile[]>(
+    [['김민수', '20231234'], ['김민수', '20239999']].map(([name, qualifier]) => [
+      getSignatureKey(name, qualifier),
+      [{ name, qualifier, variant: `${name}@${qualifier}_1.png`, previewUrl: `blob:${qualifier}`, width: 200, height: 80 }],
+    ])
+  );
+
+  it('사번 열로 같은 이름의 서명을 구분한다', () => {
+    const sheet = buildSheet([
+      ['성명', '사번', '서명'],
+      ['김민수', '2023-1234', 1],
+      ['김민수', '2023-9999', 1],
+    ]);
+    const result = autoMatchSignaturesDetailed(sheet, signatures, { seed: 'h' });
+    expect(result.assignments.get('s0:2:3')?.signatureBaseName).toBe('김민수@20231234');
+    expect(result.assignments.get('s0:3:3')?.signatureBaseName).toBe('김민수@20239999');
+    expect(result.ambiguousRows).toEqual([]);
+  });
+
+  it('구분 정보가 없거나 일치하지 않으면 서명하지 않고 확인 대상으로 남긴다', () => {
+    const sheet = buildSheet([
+      ['성명', '사번', '서명'],
+      ['김민수', null, 1],
+      ['김민수', '2023-0000', 1],
+    ]);
+    const result = autoMatchSignaturesDetailed(sheet, signatures, { seed: 'h' });
+    expect(result.assignments.size).toBe(0);
+    expect(result.ambiguousRows.map(row => [row.address, row.reason, row.candidateKeys.length])).toEqual([
+      ['A2', 'multiple-candidates', 2],
+      ['A3', 'identity-mismatch', 2],
+    ]);
+  });
+});
+
+describe('반복 헤더', () => {
+  const sheet = buildSheet([
+    ['성 명', '서명'],
+    ['홍길동', 1],
+    ['[2쪽]', null, null],
+    ['번호', '성명', '서명'],
+    ['A-01', '김철수', 1],
+  ]);
+
+  it('페이지마다 다시 인쇄된 성명 헤더와 옮겨진 성명 열을 찾는다', () => {
+    expect(findRepeatedHeaderRows(sheet, { headerRow: 1, nameCol: 1 })).toEqual([{ headerRow: 4, nameCol: 2 }]);
+  });
+
+  it('반복 헤더 아래 명단은 새 성명 열 기준으로 서명한다', () => {
+    const assignments = autoMatchSignatures(sheet, buildSignatures('홍길동', '김철수'), { seed: 'r' });
+    expect(Array.from(assignments.keys()).sort()).toEqual(['s0:2:2', 's0:5:3']);
+    expect(assignments.get('s0:5:3')?.signatureBaseName).toBe('김철수');
+  });
+
+  it('수동 지정한 좌우 블록 성명 열과 1인당 행 수를 반복 블록에도 적용한다', () => {
+    const twoBlockSheet = buildSheet([
+      ['작업자', '확인', '참석자', '확인'],
+      ['홍길동', 1, '김철수', 1],
+      [null, 1, null, 1],
+      ['작업자', '확인', '참석자', '확인'],
+      ['이영희', 1, '박민수', 1],
+      [null, 1, null, 1],
+    ]);
+    const mapping = { headerRow: 1, nameCol: 1, extraNameCols: [3], personRowSpan: 2 };
+    expect(findRepeatedHeaderRows(twoBlockSheet, mapping)).toEqual([
+      { headerRow: 4, nameCol: 1, extraNameCols: [3], personRowSpan: 2 },
+    ]);
+
+    const assignments = autoMatchSignatures(twoBlockSheet, buildSignatures('홍길동', '김철수', '이영희', '박민수'), {
+      seed: 'r',
+      sheetMappings: new Map([[0, mapping]]),
+    });
+    expect(Array.from(assignments.entries()).map(([key, value]) => [key, value.signatureBaseName]).sort()).toEqual([
+      ['s0:2:2', '홍길동'],
+      ['s0:2:4', '김철수'],
+      ['s0:3:2', '홍길동'],
+      ['s0:3:4', '김철수'],
+      ['s0:5:2', '이영희'],
+      ['s0:5:4', '박민수'],
+      ['s0:6:2', '이영희'],
+      ['s0:6:4', '박민수'],
+    ]);
+  });
+});
+
+describe('시트별 수동 매핑', () => {
+  it('자동 탐지가 못 찾는 헤더도 지정한 행/열로 서명한다', () => {
+    const sheet = buildSheet([
+      ['작업자', '확인'],
+      ['홍길동', 1],
+    ]);
+    const signatures = buildSignatures('홍길동');
+    expect(autoMatchSignatures(sheet, signatures, { seed: 'm' }).size).toBe(0);
+
+    const sheetMappings = new Map([[0, { headerRow: 1, nameCol: 1 }]]);
+    expect(Array.from(autoMatchSignatures(sheet, signatures, { seed: 'm', sheetMappings }).keys())).toEqual(['s0:2:2']);
+  });
+});
+
+describe('1인 여러 행 양식', () => {
+  const signatures = buildSignatures('홍길동', '김철수');
+
+  it('성명 아래 행의 placeholder도 설정한 행 수만큼 같은 사람에게 귀속한다', () => {
+    const sheet = buildSheet([
+      ['성명', '오전', '오후'],
+      ['홍길동', 1, null],
+      [null, null, 1],
+      ['김철수', 1, null],
+      [null, null, 1],
+    ]);
+    const sheetMappings = new Map([[0, { headerRow: 1, nameCol: 1, personRowSpan: 2 }]]);
+    const assignments = autoMatchSignatures(sheet, signatures, { seed: 'span', sheetMappings });
+    expect(Array.from(assignments.entries()).map(([key, value]) => [key, value.signatureBaseName])).toEqual([
+      ['s0:2:2', '홍길동'],
+      ['s0:3:3', '홍길동'],
+      ['s0:4:2', '김철수'],
+      ['s0:5:3', '김철수'],
+    ]);
+  });
+
+  it('세로로 병합된 성명 칸은 병합 높이만큼 한 사람으로 본다', () => {
+    const sheet = buildSheet([
+      ['성명', '서명'],
+      ['홍길동', 1],
+      [null, 1],
+    ], { mergedCells: ['A2:A3'] });
+    const assignments = autoMatchSignatures(sheet, signatures, { seed: 'span' });
+    expect(Array.from(assignments.values()).map(value => [value.row, value.signatureBaseName])).toEqual([
+      [2, '홍길동'],
+      [3, '홍길동'],
+    ]);
+  });
+});
+
+describe('퍼지 이름 매칭', () => {
+  it('자모 하나 오타는 자동 매칭하고 짧은 이름의 오타는 확인 후보로 남긴다', () => {
+    const sheet = buildSheet([
+      ['성명', '서명'],
+      ['홍길동', 1],
+      ['김진', 1],
+    ]);
+    const result = autoMatchSignaturesDetailed(sheet, buildSignatures('홍길둥', '김전'), { seed: 'f' });
+    expect(result.assignments.get('s0:2:2')).toMatchObject({ signatureBaseName: '홍길둥', matchConfidence: 8 / 9 });
+    expect(result.assignments.has('s0:3:2')).toBe(false);
+    expect(result.fuzzySuggestions.map(suggestion => [suggestion.sheetName, suggestion.candidates[0].signatureBaseName])).toEqual([
+      ['김진', '김전'],
+    ]);
+  });
+});
+
+describe('서명 칸 placeholder 텍스트 처리', () => {
+  beforeAll(() => {
+    installCanvasEnvironment();
+  });
+
+  const exportRoster = async (placeholderText: PlaceholderTextOption) => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Sheet1');
+    sheet.addRow(['성명', '서명']);
+    sheet.addRow(['홍길동', '1']);
+    sheet.addRow(['김철수', null]); // 서명 헤더 아래 빈 칸 placeholder
+    sheet.addRow(['이영희', { formula: '"o"' }]);
+    const buffer = (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+
+    const png = new Uint8Array(drawFixture(120, 40, '#fff', [[10, 10, 100, 20, '#000']]).toBuffer('image/png'));
+    const signatures = new Map(['홍길동', '김철수', '이영희'].map(name => [name, [{
+      name, variant: `${name}_1.png`, previewUrl: URL.createObjectURL(new Blob([png], { type: 'image/png' })), width: 120, height: 40,
+    }]]));
+    const assignments = new Map([2, 3, 4].map((row, i) => [
+      `s0:${row}:2`,
+      createManualAssignment({ row, col: 2, sheetIndex: 0 }, ['홍길동', '김철수', '이영희'][i], `${['홍길동', '김철수', '이영희'][i]}_1.png`),
+    ]));
+
+    const blob = await generateFinalExcel(buffer, assignments, signatures, {}, { placeholderText });
+    const exported = new ExcelJS.Workbook();
+    await exported.xlsx.load(await blob.arrayBuffer());
+    const exportedSheet = exported.worksheets[0];
+    return { values: [2, 3, 4].map(row => exportedSheet.getCell(row, 2).value), images: exportedSheet.getImages().length };
+  };
+
+  it('비우기 모드는 값이 있는 placeholder만 비우고 수식은 유지한다', async () => {
+    const { values, images } = await exportRoster({ mode: 'clear' });
+    expect(images).toBe(3);
+    expect(values[0]).toBeNull();
+    expect(values[1]).toBeNull();
+    expect(values[2]).toMatchObject({ formula: '"o"' });
+  });
+
+  it('교체 모드는 빈 placeholder 칸에도 지정한 텍스트를 기록한다', async () => {
+    const { values, images } = await exportRoster({ mode: 'replace', text: '2024-03-04 서명' });
+    expect(images).toBe(3);
+    expect(values.slice(0, 2)).toEqual(['2024-03-04 서명', '2024-03-04 서명']);
+    expect(values[2]).toMatchObject({ formula: '"o"' });
+  });
+});
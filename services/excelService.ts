@@ -1,6 +1,31 @@
 import ExcelJS from 'exceljs';
-import { SheetData, RowData, CellData, SignatureFile, SignatureAssignment } from '../types';
-import { columnNumberToLetter, parseCellAddress, isSignaturePlaceholder, randomInt, randomFloat, parsePrintAreaBounds } from './excelUtils';
+import { SheetData, RowData, CellData, SignatureFile, SignatureAssignment, SheetColumnMapping, PlaceholderRules, RowExclusionRules, AttendanceLog, AssignmentLockScopes } from '../types';
+import {
+  columnNumberToLetter,
+  parseCellAddress,
+  isSignaturePlaceholder,
+  matchesPlaceholderFill,
+  randomInt,
+  randomFloat,
+  secureRandom,
+  createSeededRandom,
+  RandomSource,
+  parsePrintAreaBounds,
+  DEFAULT_PLACEHOLDER_RULES,
+  DEFAULT_SIGNATURE_HEADER_PATTERN,
+  DEFAULT_ROW_EXCLUSION_RULES,
+  DEFAULT_STATUS_HEADER_PATTERN,
+  matchesFillColor,
+  normalizeColorHex,
+  DateParseContext,
+  parseDateText,
+} from './excelUtils';
+import {
+  findNameCandidates,
+  NameMatchCandidate,
+  DEFAULT_FUZZY_AUTO_ACCEPT_THRESHOLD,
+  DEFAULT_FUZZY_SUGGEST_THRESHOLD,
+} from './nameMatcher';
 
 export interface AutoMatchOptions {
   /**
@@ -9,8 +34,202 @@ export interface AutoMatchOptions {
    * - 100에 가까울수록 더 자연스럽고 랜덤한 변형을 적용한다.
    */
   variationStrength?: number;
+  /**
+   * 이름 퍼지 매칭 사용 여부 (기본 true)
+   * - 정확히 일치하는 서명이 없을 때 자모/문자 편집거리로 후보를 찾는다.
+   */
+  fuzzyMatch?: boolean;
+  /** 이 값 이상의 유사도는 확인 없이 자동 매칭 (기본 0.85) */
+  fuzzyAutoAcceptThreshold?: number;
+  /** 이 값 이상의 유사도는 확인 대상 후보로 제시 (기본 0.7) */
+  fuzzySuggestThreshold?: number;
+  /**
+   * 사용자가 확인한 이름 별칭: 정규화된 시트 성명 -> 서명 기본 이름
+   */
+  nameAliases?: Map<string, string>;
+  /**
+   * 사용자가 거절한 후보 쌍 (getNameMatchPairKey 형식)
+   */
+  rejectedNameMatches?: Set<string>;
+  /**
+   * 시트별 수동 헤더/성명 열 지정 (key: 0-based sheetIndex)
+   * - 지정된 시트는 자동 헤더 탐지를 건너뛴다.
+   */
+  sheetMappings?: Map<number, SheetColumnMapping>;
+  /**
+   * 서명 placeholder 인식 규칙 (미지정 시 기본 기호 목록)
+   */
+  placeholderRules?: PlaceholderRules;
+  /**
+   * 명단 행 제외 규칙 (퇴사/결근 비고, 취소선, 배경색, 숨긴 행). 미지정 시 기본 규칙
+   */
+  rowExclusionRules?: RowExclusionRules;
+  /**
+   * 출석 기록: 지정 시 날짜 헤더 열의 placeholder는 해당 날짜 출석자만 서명한다.
+   */
+  attendanceLog?: AttendanceLog | null;
+  /**
+   * 재현용 시드: 지정 시 variant 선택/회전/스케일/오프셋을 결정적 PRNG로 생성한다.
+   * - 같은 입력 + 같은 시드면 동일한 배치가 나온다. (감사 대응)
+   * - 미지정 시 기존과 같이 보안 난수를 사용한다.
+   */
+  seed?: string;
+  /**
+   * 잠긴 배치: locked 플래그가 있는 항목은 재매칭/일괄 생성에서도 그대로 유지하고
+   * 해당 칸에는 새 서명을 뽑지 않는다. (key: assignments Map 키)
+   */
+  lockedAssignments?: Map<string, SignatureAssignment>;
+  /**
+   * 행/사람 단위 잠금 범위: 잠긴 행과 사람에게는 기존 배치 외에 새 칸을 채우지 않는다.
+   */
+  lockScopes?: AssignmentLockScopes;
 }
 
+/**
+ * 내보낸 파일에 남기는 생성 정보
+ */
+export interface ExportProvenance {
+  seed?: string;
+  edited?: boolean; // 시드 실행 뒤 수동 편집(또는 잠금 유지)된 배치 포함 - 시드만으로는 재현되지 않음
+}
+
+const PROVENANCE_PREFIX = 'SafetySignPro seed:';
+
+/**
+ * 서명된 칸의 placeholder 텍스트 처리 방식 (Excel 내보내기)
+ * - keep: 원본 값 유지 (기본) / clear: 값 비우기 / replace: 지정 텍스트로 교체 (예: 서명 일자)
+ */
+export type PlaceholderTextMode = 'keep' | 'clear' | 'replace';
+
+export interface PlaceholderTextOption {
+  mode: PlaceholderTextMode;
+  text?: string; // replace 모드에서 기록할 값
+}
+
+export interface ExcelExportOptions {
+  placeholderText?: PlaceholderTextOption;
+}
+
+/**
+ * 내보낸 파일에 기록할 시드 표기 (수동 편집이 섞였으면 표시를 붙인다)
+ */
+export const formatSeedProvenance = (provenance: ExportProvenance): string =>
+  `${provenance.seed}${provenance.edited ? ' (manually edited)' : ''}`;
+
+/**
+ * 잠겨서 재매칭에 그대로 유지되는 배치가 있는지
+ */
+export const hasLockedAssignments = (assignments?: Map<string, SignatureAssignment>): boolean =>
+  !!assignments && Array.from(assignments.values()).some(assignment => assignment.locked);
+
+/**
+ * 매칭 옵션에 잠금(잠긴 배치 또는 행/사람 잠금 범위)이 있는지
+ * - 잠금이 있으면 결과가 시드만으로 재현되지 않으므로 수동 편집으로 기록한다.
+ */
+export const hasMatchLocks = (options?: AutoMatchOptions): boolean =>
+  hasLockedAssignments(options?.lockedAssignments)
+  || (!!options?.lockScopes && (options.lockScopes.rows.size > 0 || options.lockScopes.persons.size > 0));
+
+/**
+ * 문서 설명에 시드 줄을 기록 (이전 시드 줄은 교체, 기존 설명은 유지)
+ */
+export const appendSeedToDescription = (description: string | undefined, seed: string): string => {
+  const kept = (description || '')
+    .split(/\r?\n/)
+    .filter(line => line.trim() && !line.startsWith(PROVENANCE_PREFIX));
+  return [...kept, `${PROVENANCE_PREFIX} ${seed}`].join('\n');
+};
+
+/**
+ * 확인이 필요한 저신뢰도 이름 매칭 후보
+ */
+export interface FuzzyMatchSuggestion {
+  sheetName: string; // 정규화된 시트 성명
+  rawName: string; // 시트에 적힌 원문
+  candidates: NameMatchCandidate[];
+  occurrences: number; // 해당 성명이 등장한 데이터 행 수
+}
+
+/**
+ * 출석 기록과 맞지 않아 서명하지 않은 placeholder
+ */
+export interface AttendanceException {
+  sheetName: string;
+  address: string;
+  row: number;
+  col: number;
+  personName: string; // 시트에 적힌 성명
+  date: string; // 'YYYY-MM-DD'
+  reason: 'absent' | 'not-in-log'; // 해당 날짜 기록 없음 / 출석 기록에 없는 사람
+}
+
+/**
+ * 동명이인 서명 중 어느 것인지 확정하지 못해 서명하지 않은 명단 행
+ */
+export interface AmbiguousRowReport {
+  sheetName: string;
+  row: number;
+  address: string; // 성명 셀 주소
+  personName: string; // 시트에 적힌 성명
+  identities: string[]; // 행에서 읽은 사번/소속/생년월일 (정규화 값)
+  candidateKeys: string[]; // 후보 서명 키 (getSignatureKey 형식)
+  reason: 'multiple-candidates' | 'identity-mismatch'; // 구분 정보 없음·중복 / 구분 정보와 일치하는 서명 없음
+}
+
+/**
+ * 매칭 후 대사(reconciliation) 결과: 서명되지 않은 사람/파일/칸/시트
+ */
+export interface MatchReconciliation {
+  /** 시트에 있으나 서명 파일이 없는 성명 (시트·성명 단위로 묶음) */
+  unmatchedNames: {
+    sheetName: string;
+    personName: string;
+    rows: number[];
+    hasSuggestion: boolean; // 확인 대기 중인 퍼지 후보가 있는지
+  }[];
+  /** 한 번도 배치되지 않은 서명 (서명 키 단위) */
+  unusedSignatures: {
+    signatureKey: string;
+    fileNames: string[];
+  }[];
+  /** 병합셀 내부라 건너뛴 placeholder */
+  mergedInteriorSkips: {
+    sheetName: string;
+    address: string;
+    personName: string;
+  }[];
+  /** 성명 헤더를 찾지 못해 건너뛴 시트 */
+  skippedSheets: {
+    sheetIndex: number;
+    sheetName: string;
+  }[];
+  /** 제외 규칙에 해당해 서명하지 않은 명단 행 */
+  excludedRows: {
+    sheetName: string;
+    row: number;
+    address: string; // 성명 셀 주소
+    personName: string;
+    reason: RowExclusionReason;
+    detail?: string; // status: 비고 값, fill: 배경색
+  }[];
+}
+
+export type RowExclusionReason = 'status' | 'strikethrough' | 'fill' | 'hidden';
+
+export interface AutoMatchResult {
+  assignments: Map<string, SignatureAssignment>;
+  fuzzySuggestions: FuzzyMatchSuggestion[];
+  attendanceExceptions: AttendanceException[];
+  ambiguousRows: AmbiguousRowReport[];
+  reconciliation: MatchReconciliation;
+  seed?: string; // 배치에 사용한 시드 (options.seed 그대로)
+}
+
+/**
+ * 이름 매칭 후보 쌍 식별 키 (거절 목록 저장용)
+ */
+export const getNameMatchPairKey = (sheetName: string, signatureBaseName: string) => `${sheetName}=>${signatureBaseName}`;
+
 /**
  * 매칭을 위해 이름 정규화
  */
@@ -23,6 +242,51 @@ export const normalizeName = (name: string) => {
     .toLowerCase();                      // Case insensitive
 };
 
+/**
+ * 동명이인 구분자(사번/소속/생년월일) 정규화
+ * - 하이픈/점/공백 표기 차이를 무시한다. (900101 / 90.01.01 / 90-01-01)
+ */
+export const normalizeQualifier = (value: string | number | null | undefined) => {
+  return (value ?? '').toString().replace(/[^a-zA-Z0-9가-힣]/g, '').toLowerCase();
+};
+
+const SIGNATURE_QUALIFIER_SEPARATOR = '@';
+
+/**
+ * 서명 Map 키 생성
+ * - 구분자가 없으면 기존과 같이 정규화된 이름만 키로 사용한다.
+ */
+export const getSignatureKey = (name: string, qualifier?: string) => {
+  return qualifier ? `${name}${SIGNATURE_QUALIFIER_SEPARATOR}${qualifier}` : name;
+};
+
+/**
+ * 서명 이미지 파일명에서 이름/구분자 추출
+ * - '홍길동_1.png' -> 이름만
+ * - '김민수@20231234_1.png', '김민수@한빛건설_2.png' -> 이름 + 구분자
+ */
+export const parseSignatureFileName = (fileName: string): { name: string; qualifier?: string } | null => {
+  const dotIdx = fileName.lastIndexOf('.');
+  const fileNameNoExt = dotIdx > 0 ? fileName.substring(0, dotIdx) : fileName;
+  const lastUnderscoreIdx = fileNameNoExt.lastIndexOf('_');
+  const baseNameString = lastUnderscoreIdx > 0 ? fileNameNoExt.substring(0, lastUnderscoreIdx) : fileNameNoExt;
+
+  return parseSignatureOwnerName(baseNameString);
+};
+
+/**
+ * 서명 폴더명(사람별 폴더)에서 이름/구분자 추출
+ * - '홍길동', '김민수@20231234' (번호/확장자 없음)
+ */
+export const parseSignatureOwnerName = (baseNameString: string): { name: string; qualifier?: string } | null => {
+  const separatorIdx = baseNameString.indexOf(SIGNATURE_QUALIFIER_SEPARATOR);
+  const name = normalizeName(separatorIdx > 0 ? baseNameString.substring(0, separatorIdx) : baseNameString);
+  const qualifier = separatorIdx > 0 ? normalizeQualifier(baseNameString.substring(separatorIdx + 1)) : '';
+
+  if (!name) return null;
+  return qualifier ? { name, qualifier } : { name };
+};
+
 /**
  * 엑셀 셀 값을 안전하게 문자열로 변환하는 헬퍼 함수
  * 포맷팅 정보까지 고려해서 원본값 보존
@@ -49,13 +313,13 @@ const getCellValueAsString = (cell: ExcelJS.Cell | undefined): string => {
 };
 
 /**
- * 배열을 보안 난수 기반으로 셔플(Fisher-Yates)
+ * 배열을 난수 기반으로 셔플(Fisher-Yates)
  * - 같은 행에서 서명 variant 반복 패턴이 눈에 띄지 않도록 순서를 섞는다.
  */
-const shuffleArray = <T>(source: T[]): T[] => {
+const shuffleArray = <T>(source: T[], random: RandomSource = secureRandom): T[] => {
   const result = [...source];
   for (let i = result.length - 1; i > 0; i--) {
-    const j = randomInt(0, i);
+    const j = randomInt(0, i, random);
     [result[i], result[j]] = [result[j], result[i]];
   }
   return result;
@@ -201,18 +465,24 @@ const extractWorksheetData = (worksheet: ExcelJS.Worksheet, sheetIndex: number):
         hasContent = true;
       }
 
+      const fill = cell.fill?.type === 'pattern' && cell.fill.pattern === 'solid'
+        ? cell.fill.fgColor?.argb
+        : undefined;
+
       cells.push({
         value: stringValue,
         address: cell.address,
         row: rowNumber,
         col: colNumber,
+        ...(fill ? { fill } : {}),
+        ...(cell.font?.strike ? { strike: true } : {}),
       });
     });
 
     if (hasContent) {
       consecutiveEmptyCount = 0;
       totalNonEmptyRowCount++;
-      rows.push({ index: rowNumber, cells });
+      rows.push({ index: rowNumber, cells, ...(row.hidden ? { hidden: true } : {}) });
     } else {
       consecutiveEmptyCount++;
       if (consecutiveEmptyCount <= MAX_CONSECUTIVE_EMPTY_ROWS) {
@@ -264,15 +534,319 @@ export const parseExcelFile = async (buffer: ArrayBuffer): Promise<SheetData> =>
 };
 
 /**
- * 서명 자동 매칭 로직
- * 개선사항: 더 나은 열 검색, 에러 처리, 결과 보고, 병합셀 인식
+ * 성명 헤더 자동 탐지에 사용하는 키워드
+ */
+const NAME_HEADER_PATTERN = /(성명|이름|name|person|employee|직원|직급)/i;
+
+/**
+ * 동명이인 구분에 사용하는 헤더 키워드 (성명 열과 같은 명단 블록 안에서만 사용)
+ */
+const EMPLOYEE_ID_HEADER_PATTERN = /(사번|사원번호|직원번호|employeeid|empid|employeeno)/i;
+const IDENTITY_HEADER_PATTERN = /(사번|사원번호|직원번호|employeeid|empid|employeeno|소속|회사|업체|협력사|company|생년월일|생일|birth)/i;
+const MAX_HEADER_SEARCH_ROWS = 50;
+/** 페이지마다 다시 인쇄된 헤더 판정용: 셀 전체가 성명 헤더 단어인 경우만 인정 */
+const REPEATED_NAME_HEADER_PATTERN = /^(성명|이름|name)$/i;
+
+/**
+ * 시트 상단에서 성명 헤더 셀을 찾아 헤더 행/성명 열을 반환
+ * - 수동 매핑 UI의 기본값으로도 사용한다.
+ */
+export const detectNameHeader = (sheet: SheetData): SheetColumnMapping | null => {
+  const sheetRows = sheet.rows || [];
+  const maxHeaderSearchRows = Math.min(MAX_HEADER_SEARCH_ROWS, sheetRows.length);
+
+  for (let r = 0; r < maxHeaderSearchRows; r++) {
+    const row = sheetRows[r];
+    for (const cell of row.cells) {
+      if (!cell.value) continue;
+      const rawVal = cell.value.toString().trim();
+      if (!rawVal) continue;
+
+      const normalizedValue = rawVal.replace(/[\s\u00A0\uFEFF]+/g, '');
+      if (NAME_HEADER_PATTERN.test(normalizedValue) && !IDENTITY_HEADER_PATTERN.test(normalizedValue)) {
+        return { headerRow: row.index, nameCol: cell.col };
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * 헤더 행에서 명단 블록별 성명 열 목록을 구한다.
+ * - 한 양식에 명단이 좌우로 나란히 인쇄된 경우(1~20번 / 21~40번) 블록마다 성명 열이 있다.
+ * - 기준 성명 열과 헤더 텍스트가 동일한 열만 추가 블록으로 인정하여
+ *   '직급' 같은 인접 헤더가 블록 경계로 오인되지 않게 한다.
+ */
+export const getRosterNameColumns = (sheet: SheetData, mapping: SheetColumnMapping): number[] => {
+  if (mapping.extraNameCols) {
+    return Array.from(new Set([mapping.nameCol, ...mapping.extraNameCols])).sort((a, b) => a - b);
+  }
+
+  const headerRow = (sheet.rows || []).find(row => row.index === mapping.headerRow);
+  const normalizeHeader = (value: string | number | null) => (value ?? '').toString().replace(/[\s\u00A0\uFEFF]+/g, '');
+  const primaryText = normalizeHeader(headerRow?.cells.find(cell => cell.col === mapping.nameCol)?.value ?? null);
+
+  const nameCols = new Set<number>([mapping.nameCol]);
+  if (headerRow && primaryText) {
+    for (const cell of headerRow.cells) {
+      if (normalizeHeader(cell.value) === primaryText) {
+        nameCols.add(cell.col);
+      }
+    }
+  }
+
+  return Array.from(nameCols).sort((a, b) => a - b);
+};
+
+/**
+ * 기준 헤더 아래에서 반복 인쇄된 성명 헤더 행을 찾는다.
+ * - 여러 페이지에 걸친 명단은 페이지마다 헤더를 다시 인쇄하며, 성명 열 위치가 바뀌기도 한다.
+ * - 기준 성명 헤더와 같은 텍스트(또는 '성명'/'이름' 단독 셀)가 있는 행을 새 명단 블록의 헤더로 본다.
+ * - 수동 지정한 좌우 블록 성명 열(성명 열이 옮겨진 만큼 이동)과 1인당 행 수는 반복 블록에도 적용한다.
+ */
+export const findRepeatedHeaderRows = (sheet: SheetData, mapping: SheetColumnMapping): SheetColumnMapping[] => {
+  const rows = sheet.rows || [];
+  const normalizeHeader = (value: string | number | null) => (value ?? '').toString().replace(/[\s\u00A0\uFEFF]+/g, '');
+  const primaryText = normalizeHeader(
+    rows.find(row => row.index === mapping.headerRow)?.cells.find(cell => cell.col === mapping.nameCol)?.value ?? null
+  );
+
+  const repeated: SheetColumnMapping[] = [];
+  for (const row of rows) {
+    if (row.index <= mapping.headerRow) continue;
+
+    const headerCell = row.cells.find(cell => {
+      const text = normalizeHeader(cell.value);
+      return !!text && (text === primaryText || REPEATED_NAME_HEADER_PATTERN.test(text));
+    });
+    if (headerCell) {
+      const shift = headerCell.col - mapping.nameCol;
+      repeated.push({
+        headerRow: row.index,
+        nameCol: headerCell.col,
+        ...(mapping.extraNameCols ? { extraNameCols: mapping.extraNameCols.map(col => col + shift) } : {}),
+        ...(mapping.personRowSpan ? { personRowSpan: mapping.personRowSpan } : {}),
+      });
+    }
+  }
+
+  return repeated;
+};
+
+/**
+ * 가로 명단(성명이 헤더 행에 나열된 양식)에서 성명이 아닌 머리글 셀
+ */
+const TRANSPOSED_LABEL_PATTERN = /^(날짜|일자|일시|date|구분|번호|no\.?|비고|합계|계|total)$/i;
+
+/**
+ * 가로 명단의 성명 열 목록
+ * - 헤더 행에서 기준 열(nameCol) 이후의 값이 있는 셀을 한 사람으로 본다.
+ * - 성명 셀이 여러 열에 걸쳐 병합되어 있으면 병합 범위의 모든 열이 그 사람의 칸이다.
+ */
+export const getTransposedNameColumns = (
+  sheet: SheetData,
+  mapping: SheetColumnMapping
+): { nameCell: CellData; cols: number[] }[] => {
+  const headerRow = (sheet.rows || []).find(row => row.index === mapping.headerRow);
+  if (!headerRow) return [];
+
+  return headerRow.cells
+    .filter(cell => {
+      const text = (cell.value ?? '').toString().replace(/[\s\u00A0\uFEFF]+/g, '');
+      return cell.col >= mapping.nameCol && !!text && !TRANSPOSED_LABEL_PATTERN.test(text);
+    })
+    .map(nameCell => {
+      const merged = (sheet.mergedCells || [])
+        .map(range => parseMergeRange(range))
+        .find(parsed => parsed && parsed.startRow === nameCell.row && parsed.startCol === nameCell.col);
+      const cols: number[] = [];
+      for (let c = nameCell.col; c <= (merged ? merged.endCol : nameCell.col); c++) {
+        cols.push(c);
+      }
+      return { nameCell, cols };
+    });
+};
+
+/**
+ * 가로 명단 자동 탐지
+ * - 시트 상단에서 서명이 있는 성명이 가장 많이 나열된 행을 찾는다. (2명 이상)
+ * - 세로 성명 헤더가 있고 그 성명 열(좌우 블록 포함)에 서명이 있는 성명이 한 명이라도 있으면
+ *   일반 세로 명단으로 본다. (좌우로 나란한 명단의 데이터 행을 가로 명단으로 오인하지 않도록)
+ * @param isKnownName 정규화된 성명이 업로드된 서명(또는 별칭)과 일치하는지
+ */
+export const detectTransposedHeader = (
+  sheet: SheetData,
+  isKnownName: (cleanName: string) => boolean
+): SheetColumnMapping | null => {
+  const sheetRows = sheet.rows || [];
+  const countKnown = (cells: CellData[]) =>
+    cells.filter(cell => cell.value !== null && isKnownName(normalizeName(cell.value.toString()))).length;
+
+  let best: { mapping: SheetColumnMapping; count: number } | null = null;
+  for (const row of sheetRows.slice(0, MAX_HEADER_SEARCH_ROWS)) {
+    const knownCells = row.cells.filter(cell => cell.value !== null && isKnownName(normalizeName(cell.value.toString())));
+    if (knownCells.length >= 2 && (!best || knownCells.length > best.count)) {
+      best = {
+        mapping: { headerRow: row.index, nameCol: Math.min(...knownCells.map(cell => cell.col)), layout: 'transposed' },
+        count: knownCells.length,
+      };
+    }
+  }
+  if (!best) return null;
+
+  const vertical = detectNameHeader(sheet);
+  if (vertical) {
+    const nameCols = getRosterNameColumns(sheet, vertical);
+    const verticalCount = countKnown(sheetRows
+      .filter(row => row.index > vertical.headerRow)
+      .flatMap(row => row.cells.filter(cell => nameCols.includes(cell.col))));
+    if (verticalCount > 0) return null;
+  }
+
+  return best.mapping;
+};
+
+/**
+ * 헤더 행에서 '서명' 계열 헤더가 걸친 열 번호 집합을 구한다.
+ * - 병합된 '서명' 헤더(여러 날짜 열을 묶은 경우)는 병합 범위의 모든 열을 포함한다.
+ */
+const getSignatureHeaderColumns = (sheet: SheetData, headerRow: number, pattern: string): Set<number> => {
+  const columns = new Set<number>();
+  const row = (sheet.rows || []).find(r => r.index === headerRow);
+  if (!row) return columns;
+
+  let headerRegex: RegExp;
+  try {
+    headerRegex = new RegExp(pattern || DEFAULT_SIGNATURE_HEADER_PATTERN, 'i');
+  } catch {
+    headerRegex = new RegExp(DEFAULT_SIGNATURE_HEADER_PATTERN, 'i');
+  }
+
+  for (const cell of row.cells) {
+    const text = (cell.value ?? '').toString().replace(/[\s\u00A0\uFEFF]+/g, '');
+    if (!text || !headerRegex.test(text)) continue;
+
+    columns.add(cell.col);
+    for (const range of sheet.mergedCells || []) {
+      const parsed = parseMergeRange(range);
+      if (parsed && parsed.startRow <= headerRow && parsed.endRow >= headerRow &&
+          parsed.startCol === cell.col) {
+        for (let c = parsed.startCol; c <= parsed.endCol; c++) {
+          columns.add(c);
+        }
+      }
+    }
+  }
+
+  return columns;
+};
+
+/**
+ * 날짜 목록에서 가장 많이 등장한 연/월 (월이 생략된 '5일' 헤더 해석용)
+ */
+const getDominantYearMonth = (dates: string[]): DateParseContext => {
+  const counts = new Map<string, number>();
+  for (const date of dates) {
+    const yearMonth = date.slice(0, 7);
+    counts.set(yearMonth, (counts.get(yearMonth) || 0) + 1);
+  }
+
+  let best = '';
+  let bestCount = 0;
+  counts.forEach((count, yearMonth) => {
+    if (count > bestCount) {
+      best = yearMonth;
+      bestCount = count;
+    }
+  });
+
+  if (!best) return {};
+  const [year, month] = best.split('-').map(Number);
+  return { year, month };
+};
+
+/**
+ * 헤더 주변 행에서 날짜로 해석되는 열을 찾아 열 번호 -> 'YYYY-MM-DD' 맵을 만든다.
+ * - 헤더 행과 그 위 2행, 그리고 성명 칸이 비어 있는 바로 아래 행(2단 헤더)을 검사한다.
+ * - 날짜 헤더가 병합셀이면 병합 범위의 모든 열에 같은 날짜를 적용한다.
+ */
+const getSessionDateColumns = (
+  sheet: SheetData,
+  mapping: SheetColumnMapping,
+  context: DateParseContext
+): Map<number, string> => {
+  const dateCols = new Map<number, string>();
+  const rows = sheet.rows || [];
+  const headerPosition = rows.findIndex(row => row.index === mapping.headerRow);
+  if (headerPosition === -1) return dateCols;
+
+  const candidateRows: RowData[] = rows.slice(Math.max(0, headerPosition - 2), headerPosition + 1);
+  const subHeaderRow = rows[headerPosition + 1];
+  if (subHeaderRow) {
+    const nameCell = subHeaderRow.cells.find(cell => cell.col === mapping.nameCol);
+    if (!nameCell || !(nameCell.value ?? '').toString().trim()) {
+      candidateRows.push(subHeaderRow);
+    }
+  }
+
+  for (const row of candidateRows) {
+    for (const cell of row.cells) {
+      const date = parseDateText((cell.value ?? '').toString(), context);
+      if (!date) continue;
+
+      dateCols.set(cell.col, date);
+      for (const range of sheet.mergedCells || []) {
+        const parsed = parseMergeRange(range);
+        if (parsed && parsed.startRow === row.index && parsed.startCol === cell.col) {
+          for (let c = parsed.startCol; c <= parsed.endCol; c++) {
+            dateCols.set(c, date);
+          }
+        }
+      }
+    }
+  }
+
+  return dateCols;
+};
+
+/**
+ * 서명 자동 매칭 로직 (배치 결과만 필요한 호출부용)
  */
 export const autoMatchSignatures = (
   sheetData: SheetData,
   signatures: Map<string, SignatureFile[]>,
   options: AutoMatchOptions = {}
 ): Map<string, SignatureAssignment> => {
+  return autoMatchSignaturesDetailed(sheetData, signatures, options).assignments;
+};
+
+/**
+ * 서명 자동 매칭 로직
+ * 개선사항: 더 나은 열 검색, 에러 처리, 결과 보고, 병합셀 인식, 이름 퍼지 매칭
+ */
+export const autoMatchSignaturesDetailed = (
+  sheetData: SheetData,
+  signatures: Map<string, SignatureFile[]>,
+  options: AutoMatchOptions = {}
+): AutoMatchResult => {
   const assignments = new Map<string, SignatureAssignment>();
+  const suggestionMap = new Map<string, FuzzyMatchSuggestion>();
+  const unmatchedNameMap = new Map<string, MatchReconciliation['unmatchedNames'][number]>();
+  const result: AutoMatchResult = {
+    assignments,
+    fuzzySuggestions: [],
+    attendanceExceptions: [],
+    ambiguousRows: [],
+    reconciliation: { unmatchedNames: [], unusedSignatures: [], mergedInteriorSkips: [], skippedSheets: [], excludedRows: [] },
+    ...(options.seed ? { seed: options.seed } : {}),
+  };
+  const random: RandomSource = options.seed ? createSeededRandom(options.seed) : secureRandom;
+  const lockedAssignments = new Map<string, SignatureAssignment>();
+  options.lockedAssignments?.forEach((assignment, key) => {
+    if (assignment.locked) lockedAssignments.set(key, assignment);
+  });
+  const lockScopes = options.lockScopes ?? { rows: new Set<string>(), persons: new Set<string>() };
 
   const normalizedStrength = Math.max(0, Math.min(100, options.variationStrength ?? 70));
   const strengthFactor = normalizedStrength / 100;
@@ -286,16 +860,128 @@ export const autoMatchSignatures = (
   const offsetXLimit = Math.max(1, Math.round(2 + strengthFactor * 2));
   const offsetYLimit = Math.max(1, Math.round(1 + strengthFactor * 2));
   
+  const fuzzyEnabled = options.fuzzyMatch ?? true;
+  const autoAcceptThreshold = options.fuzzyAutoAcceptThreshold ?? DEFAULT_FUZZY_AUTO_ACCEPT_THRESHOLD;
+  const suggestThreshold = Math.min(autoAcceptThreshold, options.fuzzySuggestThreshold ?? DEFAULT_FUZZY_SUGGEST_THRESHOLD);
+  const nameAliases = options.nameAliases || new Map<string, string>();
+  const rejectedNameMatches = options.rejectedNameMatches || new Set<string>();
+  const placeholderRules = options.placeholderRules || DEFAULT_PLACEHOLDER_RULES;
+  const rowExclusionRules = options.rowExclusionRules || DEFAULT_ROW_EXCLUSION_RULES;
+  const statusKeywords = rowExclusionRules.statusKeywords
+    .map(keyword => keyword.replace(/[\s\u00A0\uFEFF]+/g, ''))
+    .filter(Boolean);
+  let statusHeaderRegex: RegExp;
+  try {
+    statusHeaderRegex = new RegExp(rowExclusionRules.statusHeaderPattern || DEFAULT_STATUS_HEADER_PATTERN, 'i');
+  } catch {
+    statusHeaderRegex = new RegExp(DEFAULT_STATUS_HEADER_PATTERN, 'i');
+  }
+
+  /**
+   * 명단 행이 제외 규칙에 해당하는지 확인 (숨김 > 취소선 > 배경색 > 비고 순)
+   */
+  const getRowExclusion = (
+    nameCell: CellData,
+    statusCells: CellData[],
+    rowHidden: boolean
+  ): { reason: RowExclusionReason; detail?: string } | null => {
+    if (rowExclusionRules.hiddenRows && rowHidden) return { reason: 'hidden' };
+    if (rowExclusionRules.strikethrough && nameCell.strike) return { reason: 'strikethrough' };
+    if (matchesFillColor(nameCell.fill, rowExclusionRules.fillColors)) {
+      return { reason: 'fill', detail: normalizeColorHex(nameCell.fill) };
+    }
+    for (const cell of statusCells) {
+      const text = (cell.value ?? '').toString().replace(/[\s\u00A0\uFEFF]+/g, '');
+      if (text && statusKeywords.some(keyword => text.includes(keyword))) {
+        return { reason: 'status', detail: (cell.value ?? '').toString().trim() };
+      }
+    }
+    return null;
+  };
+  const attendanceLog = options.attendanceLog || null;
+  const attendanceDateContext = attendanceLog
+    ? getDominantYearMonth(attendanceLog.records.map(record => record.date))
+    : {};
+
   if (!sheetData) {
     console.warn("시트 데이터가 없습니다.");
-    return assignments;
+    return result;
   }
 
   if (signatures.size === 0) {
     console.warn("업로드된 서명이 없습니다.");
-    return assignments;
+    lockedAssignments.forEach((assignment, key) => assignments.set(key, assignment));
+    return result;
   }
+
+  /**
+   * 서명 기본 이름 -> 서명 키 목록 (동명이인은 구분자별로 키가 여러 개)
+   */
+  const signatureKeysByName = new Map<string, { key: string; qualifier?: string }[]>();
+  signatures.forEach((list, key) => {
+    const sample = list.find(Boolean);
+    const baseName = sample?.name || key;
+    const entries = signatureKeysByName.get(baseName) || [];
+    entries.push({ key, ...(sample?.qualifier ? { qualifier: sample.qualifier } : {}) });
+    signatureKeysByName.set(baseName, entries);
+  });
+
+  // 생년월일은 6자리/8자리 표기가 섞이므로 6자 이상일 때 뒷자리 일치도 허용한다.
+  const matchesQualifier = (qualifier: string, identity: string) => {
+    if (qualifier === identity) return true;
+    const [shorter, longer] = qualifier.length < identity.length ? [qualifier, identity] : [identity, qualifier];
+    return shorter.length >= 6 && /^\d+$/.test(longer) && longer.endsWith(shorter);
+  };
+
+  /**
+   * 시트 성명 -> 서명 이름 해석 (정확 일치 > 사용자 별칭 > 퍼지 자동 수락)
+   * - 같은 성명이 여러 행에 반복되므로 실행 단위로 결과를 캐시한다.
+   */
+  const resolvedNameCache = new Map<string, { signatureBaseName: string; confidence: number } | null>();
+  const resolveSignatureName = (cleanName: string, rawName: string) => {
+    if (resolvedNameCache.has(cleanName)) {
+      const cached = resolvedNameCache.get(cleanName) ?? null;
+      const pending = suggestionMap.get(cleanName);
+      if (!cached && pending) pending.occurrences++;
+      return cached;
+    }
+
+    let resolved: { signatureBaseName: string; confidence: number } | null = null;
+    const alias = nameAliases.get(cleanName);
+
+    if (signatureKeysByName.has(cleanName)) {
+      resolved = { signatureBaseName: cleanName, confidence: 1 };
+    } else if (alias && signatureKeysByName.has(alias)) {
+      resolved = { signatureBaseName: alias, confidence: 1 };
+    } else if (fuzzyEnabled) {
+      const candidates = findNameCandidates(cleanName, signatureKeysByName.keys(), suggestThreshold)
+        .filter(candidate => !rejectedNameMatches.has(getNameMatchPairKey(cleanName, candidate.signatureBaseName)));
+      const [best, runnerUp] = candidates;
+      const isUnambiguous = !runnerUp || runnerUp.confidence < best.confidence;
+
+      if (best && best.confidence >= autoAcceptThreshold && isUnambiguous) {
+        resolved = best;
+        console.log(`[autoMatch] 퍼지 자동 매칭: ${rawName.trim()} -> ${best.signatureBaseName} (${best.confidence.toFixed(2)})`);
+      } else if (candidates.length > 0) {
+        suggestionMap.set(cleanName, {
+          sheetName: cleanName,
+          rawName: rawName.trim(),
+          candidates,
+          occurrences: 1,
+        });
+      }
+    }
+
+    resolvedNameCache.set(cleanName, resolved);
+    return resolved;
+  };
   
+  /**
+   * 가로 명단 자동 탐지용: 시트 성명이 업로드된 서명(또는 별칭)과 정확히 일치하는지
+   */
+  const isKnownSheetName = (cleanName: string) =>
+    signatureKeysByName.has(cleanName) || signatureKeysByName.has(nameAliases.get(cleanName) ?? '');
+
   let matchedCount = 0;
   let totalDataRows = 0;
 
@@ -316,50 +1002,124 @@ export const autoMatchSignatures = (
 
     console.log(`[autoMatch] Sheet#${currentSheetIndex + 1}(${currentSheet.name}) 병합된 셀: ${mergedCells.length}개`);
 
-    let nameColIndex = -1;
-    let headerRowIndex = -1;
-    const maxHeaderSearchRows = Math.min(50, sheetRows.length);
-
-    for (let r = 0; r < maxHeaderSearchRows; r++) {
-      const row = sheetRows[r];
-      for (const cell of row.cells) {
-        if (!cell.value) continue;
-        const rawVal = cell.value.toString().trim();
-        if (!rawVal) continue;
-
-        const normalizedValue = rawVal.replace(/[\s\u00A0\uFEFF]+/g, '');
-        if (/(성명|이름|name|person|employee|직원|직급)/i.test(normalizedValue)) {
-          nameColIndex = cell.col;
-          headerRowIndex = r;
-          console.log(`[autoMatch] Sheet#${currentSheetIndex + 1} name column: col ${nameColIndex}, row ${r}`);
-          break;
-        }
-      }
-      if (nameColIndex !== -1) break;
-    }
+    const manualMapping = options.sheetMappings?.get(currentSheetIndex);
+    // 가로 명단: 수동 지정이 있으면 그 배치를 따르고, 없으면 서명 이름이 나열된 행이 있는지 먼저 본다.
+    const transposedHeader = manualMapping
+      ? (manualMapping.layout === 'transposed' ? manualMapping : null)
+      : detectTransposedHeader(currentSheet, isKnownSheetName);
+    const header = transposedHeader || manualMapping || detectNameHeader(currentSheet);
+    const headerRowIndex = header ? sheetRows.findIndex(row => row.index === header.headerRow) : -1;
 
-    if (nameColIndex === -1) {
+    if (!header || headerRowIndex === -1) {
       console.warn(`[autoMatch] Sheet#${currentSheetIndex + 1} 성명/이름 열을 찾지 못해 스킵`);
+      result.reconciliation.skippedSheets.push({ sheetIndex: currentSheetIndex, sheetName: currentSheet.name });
       continue;
     }
 
-    for (let r = headerRowIndex + 1; r < sheetRows.length; r++) {
-      const row = sheetRows[r];
-      const nameCell = row.cells.find(c => c.col === nameColIndex);
-      if (!nameCell || !nameCell.value) continue;
+    /**
+     * 헤더 행 하나가 정의하는 명단 블록 (성명/구분 열, 서명 헤더 열, 날짜 헤더 열)
+     * - 긴 명단은 페이지마다 헤더가 반복되고 성명 열이 옮겨지기도 하므로 헤더마다 다시 계산한다.
+     */
+    const buildHeaderBlock = (mapping: SheetColumnMapping, position: number, endPosition: number) => {
+      const nameCols = getRosterNameColumns(currentSheet, mapping);
+      const identityCols = (sheetRows[position].cells || [])
+        .map(cell => ({ col: cell.col, text: (cell.value ?? '').toString().replace(/[\s\u00A0\uFEFF]+/g, '') }))
+        .filter(({ col, text }) => !nameCols.includes(col) && IDENTITY_HEADER_PATTERN.test(text))
+        .map(({ col, text }) => ({ col, isEmployeeId: EMPLOYEE_ID_HEADER_PATTERN.test(text) }));
+      const statusCols = (sheetRows[position].cells || [])
+        .filter(cell => !nameCols.includes(cell.col) && statusHeaderRegex.test((cell.value ?? '').toString().replace(/[\s\u00A0\uFEFF]+/g, '')))
+        .map(cell => cell.col);
+      const sessionDateCols = attendanceLog
+        ? getSessionDateColumns(currentSheet, mapping, attendanceDateContext)
+        : new Map<number, string>();
+      const signatureHeaderCols = placeholderRules.blankUnderSignatureHeader
+        ? getSignatureHeaderColumns(currentSheet, mapping.headerRow, placeholderRules.signatureHeaderPattern)
+        : new Set<number>();
+
+      console.log(`[autoMatch] Sheet#${currentSheetIndex + 1} name column: col ${nameCols.join(', ')}, row ${mapping.headerRow}${mapping === manualMapping ? ' (수동 지정)' : ''}`);
+      if (identityCols.length > 0) {
+        console.log(`[autoMatch] Sheet#${currentSheetIndex + 1} 동명이인 구분 열: col ${identityCols.map(c => c.col).join(', ')}`);
+      }
+      if (attendanceLog) {
+        console.log(`[autoMatch] Sheet#${currentSheetIndex + 1} 날짜 헤더 열: ${sessionDateCols.size}개`);
+      }
 
-      totalDataRows++;
-      const rawName = nameCell.value.toString();
-      const cleanName = normalizeName(rawName);
+      return {
+        position,
+        endPosition,
+        nameCols,
+        identityCols,
+        statusCols,
+        sessionDateOf: (cell: CellData): string | undefined => sessionDateCols.get(cell.col),
+        signatureHeaderCols,
+        personRowSpan: Math.max(1, Math.floor(mapping.personRowSpan ?? personRowSpan)),
+      };
+    };
+    type HeaderBlock = ReturnType<typeof buildHeaderBlock>;
+
+    // 2행 1인 양식: 성명 행 아래 N-1행의 placeholder도 같은 사람에게 귀속한다. (반복 헤더 블록에도 동일 적용)
+    const personRowSpan = Math.max(1, Math.floor(header.personRowSpan ?? 1));
+    const parsedMerges = mergedCells
+      .map(range => parseMergeRange(range))
+      .filter((range): range is NonNullable<ReturnType<typeof parseMergeRange>> => !!range);
+    const isMergedInterior = (row: number, col: number) =>
+      isCellInMergedRange(row, col, mergedCells) && !isTopLeftOfMergedCell(row, col, mergedCells);
+    if (personRowSpan > 1) {
+      console.log(`[autoMatch] Sheet#${currentSheetIndex + 1} 1인당 ${personRowSpan}행`);
+    }
 
-      if (!cleanName) continue;
+    // 반복 헤더 행 자체는 데이터가 아니므로 각 블록은 다음 헤더 바로 위에서 끝난다.
+    const headerMappings = transposedHeader ? [] : [header, ...findRepeatedHeaderRows(currentSheet, header)];
+    const headerPositions = headerMappings.map(mapping => sheetRows.findIndex(row => row.index === mapping.headerRow));
+    const headerBlocks = headerMappings.map((mapping, order) =>
+      buildHeaderBlock(
+        mapping,
+        headerPositions[order],
+        order === headerMappings.length - 1 ? sheetRows.length : headerPositions[order + 1]
+      )
+    );
+    if (headerBlocks.length > 1) {
+      console.log(`[autoMatch] Sheet#${currentSheetIndex + 1} 반복 헤더 행: ${headerMappings.slice(1).map(mapping => mapping.headerRow).join(', ')}`);
+    }
 
-      const availableSigs = signatures.get(cleanName);
+    /**
+     * 셀이 placeholder 규칙에 해당하는지 확인
+     * - 값이 있으면 기호/정규식 규칙, 빈 셀이면 '서명' 헤더 열/배경색 규칙을 적용한다.
+     */
+    const isPlaceholderCell = (cell: CellData, block: HeaderBlock): boolean => {
+      const cellStr = (cell.value ?? '').toString().replace(/[\s\u00A0\uFEFF]+/g, '');
+      if (cellStr) {
+        return isSignaturePlaceholder(cellStr, placeholderRules);
+      }
+      return block.signatureHeaderCols.has(cell.col) || matchesPlaceholderFill(cell.fill, placeholderRules);
+    };
+
+    /**
+     * 한 사람에게 속한 셀 목록에서 placeholder를 찾아 서명을 배치
+     * - 같은 사람의 연속 placeholder에는 가능한 한 서로 다른 variant를 사용한다.
+     */
+    const assignPersonSignatures = (
+      targetCells: CellData[],
+      signatureKey: string,
+      resolvedName: { signatureBaseName: string; confidence: number },
+      person: { cleanName: string; rawName: string; employeeId?: string },
+      block: HeaderBlock
+    ) => {
+      // 사번 열이 있으면 출석 기록도 사번으로 먼저 찾는다. (동명이인 구분)
+      const attendedDates = attendanceLog
+        ? (person.employeeId ? attendanceLog.byEmployeeId.get(person.employeeId) : undefined)
+          || attendanceLog.byName.get(person.cleanName)
+          || attendanceLog.byName.get(resolvedName.signatureBaseName)
+        : undefined;
+
+      const availableSigs = signatures.get(signatureKey);
       const validAvailableSigs = (availableSigs || []).filter((sig): sig is SignatureFile => {
         return !!sig && typeof sig.variant === 'string' && sig.variant.trim().length > 0;
       });
 
-      if (validAvailableSigs.length === 0) continue;
+      if (validAvailableSigs.length === 0) return;
+      // 잠긴 사람은 기존 잠금 칸만 유지하고 새 칸은 채우지 않는다.
+      if (lockScopes.persons.has(signatureKey)) return;
 
       const usedVariantsInRow = new Set<string>();
       const queuedVariantsInRow: SignatureFile[] = [];
@@ -372,25 +1132,49 @@ export const autoMatchSignatures = (
           usedVariantsInRow.clear();
         }
 
-        const shuffled = shuffleArray(refillSource);
+        const shuffled = shuffleArray(refillSource, random);
         queuedVariantsInRow.push(...shuffled);
       };
 
-      for (const cell of row.cells) {
-        if (cell.col === nameColIndex) continue;
-        if (!cell.value) continue;
-        const cellStr = cell.value.toString().replace(/[\s\u00A0\uFEFF]+/g, '');
+      for (const cell of targetCells) {
+        const key = `s${currentSheetIndex}:${cell.row}:${cell.col}`;
 
-        if (!isSignaturePlaceholder(cellStr)) continue;
+        // 승인되어 잠긴 칸은 다시 뽑지 않는다. (같은 사람이면 variant 중복 회피에만 반영)
+        const locked = lockedAssignments.get(key);
+        if (locked) {
+          if (locked.signatureBaseName === signatureKey) usedVariantsInRow.add(locked.signatureVariantId);
+          continue;
+        }
+        if (lockScopes.rows.has(`s${currentSheetIndex}:${cell.row}`)) continue;
+
+        if (!isPlaceholderCell(cell, block)) continue;
 
         if (isCellInMergedRange(cell.row, cell.col, mergedCells)) {
           if (!isTopLeftOfMergedCell(cell.row, cell.col, mergedCells)) {
             console.log(`  [autoMatch] Sheet#${currentSheetIndex + 1} 스킵: (${cell.row},${cell.col}) 병합셀 내부`);
+            result.reconciliation.mergedInteriorSkips.push({
+              sheetName: currentSheet.name,
+              address: cell.address,
+              personName: person.rawName.trim(),
+            });
             continue;
           }
         }
 
-        const key = `s${currentSheetIndex}:${cell.row}:${cell.col}`;
+        // 출석 기록 모드: 날짜 헤더 열은 해당 날짜 출석자만 서명하고 나머지는 예외로 보고
+        const sessionDate = block.sessionDateOf(cell);
+        if (attendanceLog && sessionDate && !attendedDates?.has(sessionDate)) {
+          result.attendanceExceptions.push({
+            sheetName: currentSheet.name,
+            address: cell.address,
+            row: cell.row,
+            col: cell.col,
+            personName: person.rawName.trim(),
+            date: sessionDate,
+            reason: attendedDates ? 'absent' : 'not-in-log',
+          });
+          continue;
+        }
 
         if (queuedVariantsInRow.length === 0) {
           refillVariantQueue();
@@ -413,31 +1197,263 @@ export const autoMatchSignatures = (
 
         usedVariantsInRow.add(selectedSig.variant);
 
-        const rotation = randomInt(-rotationLimit, rotationLimit);
-        const scale = randomFloat(minScale, maxScale);
-        const offsetX = randomInt(-offsetXLimit, offsetXLimit);
-        const offsetY = randomInt(-offsetYLimit, offsetYLimit);
+        const rotation = randomInt(-rotationLimit, rotationLimit, random);
+        const scale = randomFloat(minScale, maxScale, random);
+        const offsetX = randomInt(-offsetXLimit, offsetXLimit, random);
+        const offsetY = randomInt(-offsetYLimit, offsetYLimit, random);
 
         assignments.set(key, {
           row: cell.row,
           col: cell.col,
           sheetIndex: currentSheetIndex,
           sheetName: currentSheet.name,
-          signatureBaseName: cleanName,
+          signatureBaseName: signatureKey,
           signatureVariantId: selectedSig.variant,
           rotation,
           scale,
           offsetX,
           offsetY,
+          ...(resolvedName.confidence < 1 ? { matchConfidence: resolvedName.confidence } : {}),
         });
 
         matchedCount++;
       }
+    };
+
+    // 1차: 명단 행(블록) 수집. 같은 성명이 서로 다른 구분 정보로 등장하는지 먼저 파악한다.
+    const rosterEntries: {
+      nameCell: CellData;
+      cleanName: string;
+      rawName: string;
+      identities: string[];
+      employeeId?: string;
+      blockCells: CellData[];
+      block: HeaderBlock;
+    }[] = [];
+    const identitiesByName = new Map<string, Set<string>>();
+
+    for (const block of headerBlocks) {
+      const { nameCols, identityCols } = block;
+      for (let r = block.position + 1; r < block.endPosition; r++) {
+        const row = sheetRows[r];
+
+        // 좌우로 나란히 배치된 명단 블록: 각 placeholder는 왼쪽으로 가장 가까운 성명 열에 귀속된다.
+        for (let blockOrder = 0; blockOrder < nameCols.length; blockOrder++) {
+          const nameColIndex = nameCols[blockOrder];
+          const blockStartCol = blockOrder === 0 ? 1 : nameColIndex;
+          const blockEndCol = blockOrder === nameCols.length - 1 ? Number.POSITIVE_INFINITY : nameCols[blockOrder + 1] - 1;
+
+          const nameCell = row.cells.find(c => c.col === nameColIndex);
+          if (!nameCell || !nameCell.value) continue;
+          // 세로로 병합된 성명 칸의 아래쪽 행은 위 사람의 칸이다. (병합 내부도 같은 값을 돌려준다)
+          if (isMergedInterior(row.index, nameColIndex)) continue;
+
+          totalDataRows++;
+          const rawName = nameCell.value.toString();
+          const cleanName = normalizeName(rawName);
+
+          if (!cleanName) continue;
+
+          const statusCells = row.cells.filter(cell =>
+            block.statusCols.includes(cell.col) && cell.col >= blockStartCol && cell.col <= blockEndCol
+          );
+          const exclusion = getRowExclusion(nameCell, statusCells, !!row.hidden);
+          if (exclusion) {
+            result.reconciliation.excludedRows.push({
+              sheetName: currentSheet.name,
+              row: row.index,
+              address: nameCell.address,
+              personName: rawName.trim(),
+              ...exclusion,
+            });
+            continue;
+          }
+
+          const identities: string[] = [];
+          let employeeId: string | undefined;
+          for (const identityCol of identityCols) {
+            if (identityCol.col < blockStartCol || identityCol.col > blockEndCol) continue;
+            const value = normalizeQualifier(row.cells.find(c => c.col === identityCol.col)?.value);
+            if (!value) continue;
+            identities.push(value);
+            if (identityCol.isEmployeeId && !employeeId) employeeId = value;
+          }
+
+          if (identities.length > 0) {
+            const seen = identitiesByName.get(cleanName) || new Set<string>();
+            seen.add(identities.join('|'));
+            identitiesByName.set(cleanName, seen);
+          }
+
+          // 성명 행부터 설정한 행 수(또는 성명 칸 병합 높이)까지, 다음 사람 성명이 나오기 전 행을 모은다.
+          const mergedName = parsedMerges.find(range => range.startRow === row.index && range.startCol === nameColIndex);
+          const lastPersonRow = Math.max(row.index + block.personRowSpan - 1, mergedName?.endRow ?? row.index);
+          const personRows = [row];
+          for (let next = r + 1; next < block.endPosition && sheetRows[next].index <= lastPersonRow; next++) {
+            const nextRow = sheetRows[next];
+            const nextName = nextRow.cells.find(c => c.col === nameColIndex);
+            if (nextName?.value && !isMergedInterior(nextRow.index, nameColIndex)) break;
+            personRows.push(nextRow);
+          }
+
+          const blockCells = personRows.flatMap(personRow => personRow.cells.filter(cell =>
+            cell.col !== nameColIndex && cell.col >= blockStartCol && cell.col <= blockEndCol
+          ));
+          rosterEntries.push({ nameCell, cleanName, rawName, identities, employeeId, blockCells, block });
+        }
+      }
+    }
+
+    // 가로 명단: 헤더 행의 각 성명 아래 칸(세션/날짜 행)이 그 사람의 칸이다.
+    if (transposedHeader) {
+      const rowDates = new Map<number, string>();
+      if (attendanceLog) {
+        for (const row of sheetRows.slice(headerRowIndex + 1)) {
+          for (const cell of row.cells) {
+            if (cell.col >= transposedHeader.nameCol) break;
+            const date = parseDateText((cell.value ?? '').toString(), attendanceDateContext);
+            if (date) {
+              rowDates.set(row.index, date);
+              break;
+            }
+          }
+        }
+      }
+
+      const persons = getTransposedNameColumns(currentSheet, transposedHeader);
+      const block: HeaderBlock = {
+        position: headerRowIndex,
+        endPosition: sheetRows.length,
+        nameCols: persons.map(person => person.nameCell.col),
+        identityCols: [],
+        statusCols: [],
+        sessionDateOf: (cell: CellData) => rowDates.get(cell.row),
+        signatureHeaderCols: new Set<number>(),
+        personRowSpan: 1,
+      };
+      console.log(`[autoMatch] Sheet#${currentSheetIndex + 1} 가로 명단: row ${transposedHeader.headerRow}, 성명 ${persons.length}명${manualMapping ? ' (수동 지정)' : ' (자동 탐지)'}`);
+      if (attendanceLog) {
+        console.log(`[autoMatch] Sheet#${currentSheetIndex + 1} 날짜 행: ${rowDates.size}개`);
+      }
+
+      for (const { nameCell, cols } of persons) {
+        totalDataRows++;
+        const rawName = (nameCell.value ?? '').toString();
+        const cleanName = normalizeName(rawName);
+        if (!cleanName) continue;
+
+        const exclusion = getRowExclusion(nameCell, [], false);
+        if (exclusion) {
+          result.reconciliation.excludedRows.push({
+            sheetName: currentSheet.name,
+            row: nameCell.row,
+            address: nameCell.address,
+            personName: rawName.trim(),
+            ...exclusion,
+          });
+          continue;
+        }
+
+        // 가로 명단에서 숨긴 행은 그 회차(날짜) 전체를 서명하지 않는다.
+        const blockCells = sheetRows
+          .slice(headerRowIndex + 1)
+          .filter(row => !(rowExclusionRules.hiddenRows && row.hidden))
+          .flatMap(row => row.cells.filter(cell => cols.includes(cell.col)));
+        rosterEntries.push({ nameCell, cleanName, rawName, identities: [], blockCells, block });
+      }
+    }
+
+    // 2차: 서명 키 확정 후 배치. 확정할 수 없는 동명이인 행은 서명하지 않고 보고한다.
+    for (const entry of rosterEntries) {
+      const resolvedName = resolveSignatureName(entry.cleanName, entry.rawName);
+      if (!resolvedName) {
+        const unmatchedKey = `${currentSheet.name}\u0000${entry.cleanName}`;
+        const unmatched = unmatchedNameMap.get(unmatchedKey) || {
+          sheetName: currentSheet.name,
+          personName: entry.rawName.trim(),
+          rows: [],
+          hasSuggestion: suggestionMap.has(entry.cleanName),
+        };
+        unmatched.rows.push(entry.nameCell.row);
+        unmatchedNameMap.set(unmatchedKey, unmatched);
+        continue;
+      }
+
+      const keyEntries = signatureKeysByName.get(resolvedName.signatureBaseName) || [];
+      const hasHomonymInSheet = (identitiesByName.get(entry.cleanName)?.size ?? 0) > 1;
+      let signatureKey: string | null = null;
+      let reason: AmbiguousRowReport['reason'] = 'multiple-candidates';
+      let candidates = keyEntries;
+
+      if (entry.identities.length > 0) {
+        const matched = keyEntries.filter(keyEntry =>
+          !!keyEntry.qualifier && entry.identities.some(identity => matchesQualifier(keyEntry.qualifier as string, identity))
+        );
+
+        if (matched.length === 1) {
+          signatureKey = matched[0].key;
+        } else if (matched.length > 1) {
+          candidates = matched;
+        } else if (keyEntries.length === 1 && !keyEntries[0].qualifier && !hasHomonymInSheet) {
+          // 구분자 없는 서명 하나뿐이고 시트에도 한 사람만 있으면 기존처럼 이름으로 매칭
+          signatureKey = keyEntries[0].key;
+        } else if (keyEntries.some(keyEntry => keyEntry.qualifier)) {
+          reason = 'identity-mismatch';
+        }
+      } else if (keyEntries.length === 1 && !hasHomonymInSheet) {
+        signatureKey = keyEntries[0].key;
+      }
+
+      if (!signatureKey) {
+        result.ambiguousRows.push({
+          sheetName: currentSheet.name,
+          row: entry.nameCell.row,
+          address: entry.nameCell.address,
+          personName: entry.rawName.trim(),
+          identities: entry.identities,
+          candidateKeys: candidates.map(candidate => candidate.key),
+          reason,
+        });
+        continue;
+      }
+
+      assignPersonSignatures(entry.blockCells, signatureKey, resolvedName, {
+        cleanName: entry.cleanName,
+        rawName: entry.rawName,
+        ...(entry.employeeId ? { employeeId: entry.employeeId } : {}),
+      }, entry.block);
     }
   }
 
+  result.fuzzySuggestions = Array.from(suggestionMap.values());
+  result.reconciliation.unmatchedNames = Array.from(unmatchedNameMap.values());
+
+  // 잠긴 배치는 명단/placeholder 변화와 무관하게 그대로 유지한다.
+  lockedAssignments.forEach((assignment, key) => assignments.set(key, assignment));
+  if (lockedAssignments.size > 0) {
+    console.log(`[autoMatch] 잠금 유지: ${lockedAssignments.size}개`);
+  }
+
+  const usedSignatureKeys = new Set(Array.from(assignments.values()).map(assignment => assignment.signatureBaseName));
+  signatures.forEach((list, key) => {
+    if (!usedSignatureKeys.has(key)) {
+      result.reconciliation.unusedSignatures.push({ signatureKey: key, fileNames: list.map(sig => sig.variant) });
+    }
+  });
+
   console.log(`Auto-matching complete: ${matchedCount} signatures matched out of ${totalDataRows} data rows`);
-  return assignments;
+  if (result.fuzzySuggestions.length > 0) {
+    console.log(`[autoMatch] 확인이 필요한 이름 후보: ${result.fuzzySuggestions.length}건`);
+  }
+  if (result.attendanceExceptions.length > 0) {
+    console.log(`[autoMatch] 출석 기록 없음으로 제외된 placeholder: ${result.attendanceExceptions.length}건`);
+  }
+  if (result.ambiguousRows.length > 0) {
+    console.log(`[autoMatch] 동명이인 확인 필요 행: ${result.ambiguousRows.length}건`);
+  }
+  const { unmatchedNames, unusedSignatures, mergedInteriorSkips, skippedSheets, excludedRows } = result.reconciliation;
+  console.log(`[autoMatch] 대사 결과: 서명 없는 성명 ${unmatchedNames.length}명, 미사용 서명 ${unusedSignatures.length}명, 병합셀 스킵 ${mergedInteriorSkips.length}칸, 헤더 없는 시트 ${skippedSheets.length}개, 제외 행 ${excludedRows.length}개`);
+  return result;
 };
 
 /**
@@ -666,7 +1682,9 @@ const validateWorksheetPreservation = (
 export const generateFinalExcel = async (
   originalBuffer: ArrayBuffer,
   assignments: Map<string, SignatureAssignment>,
-  signaturesMap: Map<string, SignatureFile[]>
+  signaturesMap: Map<string, SignatureFile[]>,
+  provenance: ExportProvenance = {},
+  exportOptions: ExcelExportOptions = {}
 ): Promise<Blob> => {
   if (!originalBuffer || originalBuffer.byteLength === 0) {
     throw new Error("원본 파일 버퍼가 비어있습니다.");
@@ -688,6 +1706,12 @@ export const generateFinalExcel = async (
     throw new Error("워크시트를 찾을 수 없습니다.");
   }
 
+  // 감사 재현용 시드는 셀을 건드리지 않도록 문서 속성(설명)에만 기록한다.
+  if (provenance.seed) {
+    workbook.description = appendSeedToDescription(workbook.description, formatSeedProvenance(provenance));
+    console.log(`[생성 정보] seed=${formatSeedProvenance(provenance)}`);
+  }
+
   console.log(`[로드완료] 행: ${firstWorksheet.actualRowCount}, 열: ${firstWorksheet.actualColumnCount}, 워크시트 수: ${workbook.worksheets.length}`);
 
   // 여러 워크시트 문제 체크
@@ -856,7 +1880,24 @@ export const generateFinalExcel = async (
     return true;
   };
 
-  // placeholder 텍스트는 유지하고 그 위에 서명 이미지를 오버레이
+  // placeholder 텍스트는 기본적으로 유지하고 그 위에 서명 이미지를 오버레이한다.
+  // 옵션을 켜면 서명이 실제로 배치된 칸의 값만 비우거나 교체한다.
+  // - 셀 값만 바꾸므로 서식(style)/병합/인쇄영역은 그대로이며, 수식 셀은 건드리지 않는다.
+  // - 교체 모드는 서명 헤더 아래 빈 칸·배경색 칸처럼 값이 없는 placeholder에도 텍스트를 기록한다.
+  const placeholderText = exportOptions.placeholderText;
+  let placeholderTextCount = 0;
+  const applyPlaceholderText = (worksheet: ExcelJS.Worksheet, row: number, col: number) => {
+    if (!placeholderText || placeholderText.mode === 'keep') return;
+
+    const cell = worksheet.getCell(row, col);
+    if (cell.type === ExcelJS.ValueType.Formula) return;
+
+    const replacement = placeholderText.mode === 'replace' ? placeholderText.text || '' : '';
+    if (!replacement && !getCellValueAsString(cell).trim()) return; // 비울 값이 없는 빈 칸
+
+    cell.value = replacement || null;
+    placeholderTextCount++;
+  };
 
   const assignmentValues = Array.from(assignments.values());
   const CHUNK_SIZE = 15;  // 더 작은 청크로 나누기
@@ -911,8 +1952,8 @@ export const generateFinalExcel = async (
         continue;
       }
 
-      // 이미지 캐시 키
-      const cacheKey = `${sigFile.variant}_rot${assignment.rotation}`;
+      // 이미지 캐시 키 (폴더/ZIP 가져오기는 사람마다 '1.png'처럼 같은 variant를 쓰므로 서명 키를 포함한다)
+      const cacheKey = `${assignment.signatureBaseName}/${sigFile.variant}_rot${assignment.rotation}`;
       let imageId = imageCache.get(cacheKey);
 
       // 새 이미지인 경우만 로테이션 처리
@@ -1063,6 +2104,7 @@ export const generateFinalExcel = async (
             });
 
             processedCount++;
+            applyPlaceholderText(worksheet, assignment.row, assignment.col);
             console.log(`  ✓ 배치됨: Sheet#${targetSheetIndex + 1} (${assignment.row},${assignment.col}) ID:${imageId}`);
           } catch (posErr) {
             console.warn(`  ⚠ oneCell 배치 실패, absolute 폴백 시도 (${assignment.row}, ${assignment.col})`, posErr);
@@ -1081,6 +2123,7 @@ export const generateFinalExcel = async (
 
               processedCount++;
               fallbackAnchorCount++;
+              applyPlaceholderText(worksheet, assignment.row, assignment.col);
               console.log(`  ✓ absolute 폴백 배치 성공: Sheet#${targetSheetIndex + 1} (${assignment.row},${assignment.col}) ID:${imageId}`);
             } catch (fallbackErr) {
               console.error(`  ✗ addImage 폴백 배치 실패 (${assignment.row}, ${assignment.col}):`, fallbackErr);
@@ -1106,6 +2149,9 @@ export const generateFinalExcel = async (
   console.log(`  실패: ${failureCount}개`);
   console.log(`  스킵: ${skippedCount}개`);
   console.log(`  앵커 폴백(absolute): ${fallbackAnchorCount}개`);
+  if (placeholderText && placeholderText.mode !== 'keep') {
+    console.log(`  placeholder ${placeholderText.mode === 'clear' ? '비움' : '교체'}: ${placeholderTextCount}칸`);
+  }
   console.log(`  캐시됨: ${assignmentValues.length - processedCount - failureCount - skippedCount}개`);
   // 메모리 최적화: 워크북 내 이미지 ID 캐시는 이후 재사용하지 않으므로 즉시 해제
   imageCache.clear();
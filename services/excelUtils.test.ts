@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { PlaceholderRules } from '../types';
+import {
+  DEFAULT_PLACEHOLDER_RULES,
+  isSignaturePlaceholder,
+  matchesPlaceholderFill,
+  normalizeColorHex,
+  validatePlaceholderPattern,
+} from './excelUtils';
+
+describe('isSignaturePlaceholder', () => {
+  it('규칙이 없으면 기본 기호 목록만 인정한다', () => {
+    expect(isSignaturePlaceholder(' 1 ')).toBe(true);
+    expect(isSignaturePlaceholder('○')).toBe(true);
+    expect(isSignaturePlaceholder('서명')).toBe(false);
+  });
+
+  it('사용자 문자열과 정규식(셀 전체 일치)을 함께 적용한다', () => {
+    const rules: PlaceholderRules = { ...DEFAULT_PLACEHOLDER_RULES, literals: ['(인)'], patterns: ['V+', '서명\\s*란'] };
+    expect(isSignaturePlaceholder('(인)', rules)).toBe(true);
+    expect(isSignaturePlaceholder('VVV', rules)).toBe(true);
+    expect(isSignaturePlaceholder('서명 란', rules)).toBe(true);
+    expect(isSignaturePlaceholder('1', rules)).toBe(false); // 기본 목록을 대체함
+    expect(isSignaturePlaceholder('AV', rules)).toBe(false); // 부분 일치는 인정하지 않음
+    expect(isSignaturePlaceholder('  ', rules)).toBe(false);
+  });
+
+  it('잘못된 정규식 규칙은 무시한다', () => {
+    const rules: PlaceholderRules = { ...DEFAULT_PLACEHOLDER_RULES, literals: [], patterns: ['(', 'x'] };
+    expect(validatePlaceholderPattern('(')).not.toBeNull();
+    expect(validatePlaceholderPattern('x')).toBeNull();
+    expect(isSignaturePlaceholder('x', rules)).toBe(true);
+    expect(isSignaturePlaceholder('(', rules)).toBe(false);
+  });
+});
+
+describe('placeholder 배경색', () => {
+  it('ARGB, #RGB, 소문자 표기를 같은 색으로 본다', () => {
+    expect(normalizeColorHex('FFFFFF00')).toBe('FFFF00');
+    expect(normalizeColorHex('#ffff00')).toBe('FFFF00');
+    expect(normalizeColorHex('yellow')).toBe('');
+  });
+
+  it('규칙의 색상 목록과 비교한다', () => {
+    const rules: PlaceholderRules = { ...DEFAULT_PLACEHOLDER_RULES, fillColors: ['#FFFF00'] };
+    expect(matchesPlaceholderFill('FFFFFF00', rules)).toBe(true);
+    expect(matchesPlaceholderFill('FF00FF00', rules)).toBe(false);
+    expect(matchesPlaceholderFill(undefined, rules)).toBe(false);
+  });
+});
@@ -1,3 +1,5 @@
+import { PlaceholderRules, RowExclusionRules } from '../types';
+
 /**
  * 엑셀 열 문자를 숫자로 변환 (A=1, B=2, ..., Z=26, AA=27, etc.)
  */
@@ -40,13 +42,101 @@ export const parseCellAddress = (address: string): { row: number; col: number }
  */
 export const SIGNATURE_PLACEHOLDERS = ['1', '(1)', '1.', '1)', 'o', 'o)', '○'];
 
+export const DEFAULT_SIGNATURE_HEADER_PATTERN = '서명|sign';
+
+export const DEFAULT_PLACEHOLDER_RULES: PlaceholderRules = {
+  literals: SIGNATURE_PLACEHOLDERS,
+  patterns: [],
+  blankUnderSignatureHeader: false,
+  signatureHeaderPattern: DEFAULT_SIGNATURE_HEADER_PATTERN,
+  fillColors: [],
+};
+
+export const DEFAULT_STATUS_HEADER_PATTERN = '비고|상태|사유|remark|status';
+
+export const DEFAULT_ROW_EXCLUSION_RULES: RowExclusionRules = {
+  statusKeywords: ['퇴사', '결근', '휴가'],
+  statusHeaderPattern: DEFAULT_STATUS_HEADER_PATTERN,
+  strikethrough: true,
+  fillColors: [],
+  hiddenRows: true,
+};
+
+/**
+ * 규칙 객체별 컴파일된 정규식 캐시
+ * - 매칭 시 수천 개 셀에 대해 호출되므로 정규식을 매번 만들지 않는다.
+ */
+const compiledPatternCache = new WeakMap<PlaceholderRules, RegExp[]>();
+
+/**
+ * 정규식 문자열 유효성 검사 (오류 메시지 반환, 정상이면 null)
+ */
+export const validatePlaceholderPattern = (pattern: string): string | null => {
+  try {
+    new RegExp(`^(?:${pattern})$`, 'u');
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : '잘못된 정규식';
+  }
+};
+
+const getCompiledPatterns = (rules: PlaceholderRules): RegExp[] => {
+  let compiled = compiledPatternCache.get(rules);
+  if (!compiled) {
+    compiled = [];
+    for (const pattern of rules.patterns) {
+      if (!pattern.trim() || validatePlaceholderPattern(pattern)) {
+        console.warn(`[placeholder] 잘못된 정규식 규칙 무시: ${pattern}`);
+        continue;
+      }
+      compiled.push(new RegExp(`^(?:${pattern})$`, 'u'));
+    }
+    compiledPatternCache.set(rules, compiled);
+  }
+  return compiled;
+};
+
 /**
  * 값이 서명 placeholder인지 확인
+ * @param value 셀 값 문자열
+ * @param rules 사용자 정의 규칙 (미지정 시 기본 목록)
  */
-export const isSignaturePlaceholder = (value: string): boolean => {
-  return SIGNATURE_PLACEHOLDERS.includes(value.trim());
+export const isSignaturePlaceholder = (value: string, rules?: PlaceholderRules): boolean => {
+  const trimmed = value.trim();
+  if (!rules) {
+    return SIGNATURE_PLACEHOLDERS.includes(trimmed);
+  }
+
+  if (!trimmed) return false;
+  if (rules.literals.includes(trimmed)) return true;
+  return getCompiledPatterns(rules).some(regex => regex.test(trimmed));
+};
+
+/**
+ * 색상 문자열을 비교용 RGB hex(대문자 6자리)로 정규화
+ * - ExcelJS ARGB('FFFFFF00'), '#FFFF00', 'ffff00' 모두 'FFFF00'으로 맞춘다.
+ */
+export const normalizeColorHex = (color: string | undefined): string => {
+  if (!color) return '';
+  const hex = color.replace(/^#/, '').toUpperCase();
+  return /^[0-9A-F]{6,8}$/.test(hex) ? hex.slice(-6) : '';
+};
+
+/**
+ * 셀 배경색이 색상 목록 중 하나인지 확인
+ */
+export const matchesFillColor = (fill: string | undefined, colors: string[]): boolean => {
+  const normalizedFill = normalizeColorHex(fill);
+  if (!normalizedFill) return false;
+  return colors.some(color => normalizeColorHex(color) === normalizedFill);
 };
 
+/**
+ * 빈 셀의 배경색이 placeholder 색상 규칙에 해당하는지 확인
+ */
+export const matchesPlaceholderFill = (fill: string | undefined, rules: PlaceholderRules): boolean =>
+  matchesFillColor(fill, rules.fillColors);
+
 /**
  * 보안 난수용 Uint32 최대값 상수
  * - 나눗셈 기반 정규화 시 일관된 기준값으로 사용
@@ -59,7 +149,7 @@ const UINT32_MAX = 0xFFFFFFFF;
  *   서명 배치 패턴의 재현 가능성을 낮춘다.
  * - 보안 요구사항을 위해 crypto 미지원 환경에서는 명시적으로 오류를 발생시킨다.
  */
-const secureRandom = (): number => {
+export const secureRandom = (): number => {
   const cryptoObj = globalThis.crypto;
 
   if (cryptoObj?.getRandomValues) {
@@ -71,26 +161,61 @@ const secureRandom = (): number => {
   throw new Error('보안 난수 생성기(crypto.getRandomValues)를 사용할 수 없습니다.');
 };
 
+/**
+ * 0 이상 1 미만 난수 공급 함수 (secureRandom 또는 시드 기반 PRNG)
+ */
+export type RandomSource = () => number;
+
+/**
+ * 감사 재현용 시드 생성 (8자리 16진수)
+ * - 시드 자체는 보안 난수로 뽑으므로 시드를 모르면 배치 패턴을 예측할 수 없다.
+ */
+export const generateRandomSeed = (): string => {
+  return Math.floor(secureRandom() * (UINT32_MAX + 1)).toString(16).toUpperCase().padStart(8, '0');
+};
+
+/**
+ * 시드 기반 결정적 난수 생성기 (FNV-1a 해시 + mulberry32)
+ * - 같은 시드와 같은 입력이면 variant 선택/회전/스케일/오프셋이 항상 동일하게 재현된다.
+ */
+export const createSeededRandom = (seed: string): RandomSource => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  let state = hash >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / (UINT32_MAX + 1);
+  };
+};
+
 /**
  * 랜덤 정수 생성 헬퍼 함수 (min과 max 포함)
  * @param min 최소값 (포함)
  * @param max 최대값 (포함)
+ * @param random 난수 공급 함수 (기본: 보안 난수)
  * @returns min과 max 사이의 랜덤 정수
  */
-export const randomInt = (min: number, max: number): number => {
+export const randomInt = (min: number, max: number, random: RandomSource = secureRandom): number => {
   const normalizedMin = Math.ceil(Math.min(min, max));
   const normalizedMax = Math.floor(Math.max(min, max));
-  return Math.floor(secureRandom() * (normalizedMax - normalizedMin + 1)) + normalizedMin;
+  return Math.floor(random() * (normalizedMax - normalizedMin + 1)) + normalizedMin;
 };
 
 /**
  * 랜덤 실수 생성 헬퍼 함수 (min 이상 max 미만)
  * - 서명 scale처럼 연속값이 필요한 경우 사용
  */
-export const randomFloat = (min: number, max: number): number => {
+export const randomFloat = (min: number, max: number, random: RandomSource = secureRandom): number => {
   const normalizedMin = Math.min(min, max);
   const normalizedMax = Math.max(min, max);
-  return secureRandom() * (normalizedMax - normalizedMin) + normalizedMin;
+  return random() * (normalizedMax - normalizedMin) + normalizedMin;
 };
 
 export interface PrintAreaBounds {
@@ -163,3 +288,77 @@ export const parsePrintAreaBounds = (
     return fallback;
   }
 };
+
+/**
+ * 날짜 텍스트 해석 시 연/월이 생략된 경우 보완할 기준값
+ */
+export interface DateParseContext {
+  year?: number;
+  month?: number;
+}
+
+/**
+ * 연/월/일 숫자를 'YYYY-MM-DD' 문자열로 변환 (존재하지 않는 날짜는 null)
+ */
+export const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Date 객체를 UTC 기준 'YYYY-MM-DD'로 변환
+ * - ExcelJS는 날짜 셀을 UTC 자정 Date로 돌려주므로 로컬 시간대를 쓰면 하루가 밀릴 수 있다.
+ */
+export const dateToIsoDate = (date: Date): string | null => {
+  if (Number.isNaN(date.getTime())) return null;
+  return toIsoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+};
+
+/**
+ * 엑셀 날짜 일련번호(1900 체계)를 'YYYY-MM-DD'로 변환
+ */
+export const excelSerialToIsoDate = (serial: number): string | null => {
+  if (!Number.isFinite(serial) || serial < 1 || serial > 2958465) return null;
+  const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+  return dateToIsoDate(new Date(EXCEL_EPOCH_UTC + Math.floor(serial) * 86400000));
+};
+
+/**
+ * 날짜 헤더/출석 기록 텍스트를 'YYYY-MM-DD'로 해석
+ * 지원 예시: 2026-03-05, 2026.3.5, 2026년 3월 5일, 26/03/05, 3/5, 3월5일, 5일(context.month 필요), 3/5(목)
+ * - 숫자 하나만 있는 값('1' 등)은 placeholder와 겹치므로 날짜로 보지 않는다.
+ */
+export const parseDateText = (text: string, context: DateParseContext = {}): string | null => {
+  if (!text) return null;
+  const cleaned = text.replace(/\(.*?\)/g, '').replace(/[\s\u00A0\uFEFF]+/g, ' ').trim();
+  if (!cleaned) return null;
+
+  let match = cleaned.match(/^(\d{4})\s*[-./년]\s*(\d{1,2})\s*[-./월]\s*(\d{1,2})\s*일?\.?$/);
+  if (match) {
+    return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  match = cleaned.match(/^(\d{2})[-./](\d{1,2})[-./](\d{1,2})$/);
+  if (match) {
+    return toIsoDate(2000 + Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  match = cleaned.match(/^(\d{1,2})\s*[-./월]\s*(\d{1,2})\s*일?\.?$/);
+  if (match && context.year) {
+    return toIsoDate(context.year, Number(match[1]), Number(match[2]));
+  }
+
+  match = cleaned.match(/^(\d{1,2})\s*일$/);
+  if (match && context.year && context.month) {
+    return toIsoDate(context.year, context.month, Number(match[1]));
+  }
+
+  // ExcelJS 날짜 셀을 문자열화한 값(Date.toString) 대응
+  if (/[a-z]/i.test(cleaned) && /\d{4}/.test(cleaned)) {
+    return dateToIsoDate(new Date(cleaned));
+  }
+
+  return null;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_FUZZY_AUTO_ACCEPT_THRESHOLD,
+  DEFAULT_FUZZY_SUGGEST_THRESHOLD,
+  decomposeHangul,
+  findNameCandidates,
+  getNameSimilarity,
+} from './nameMatcher';
+
+describe('decomposeHangul', () => {
+  it('한글 음절을 초성/중성/종성으로 분해한다', () => {
+    expect(decomposeHangul('홍길동')).toEqual(['ㅎ', 'ㅗ', 'ㅇ', 'ㄱ', 'ㅣ', 'ㄹ', 'ㄷ', 'ㅗ', 'ㅇ']);
+  });
+
+  it('한글이 아닌 문자는 그대로 둔다', () => {
+    expect(decomposeHangul('가A1')).toEqual(['ㄱ', 'ㅏ', 'A', '1']);
+  });
+});
+
+describe('getNameSimilarity', () => {
+  it('같은 이름은 1, 빈 이름은 0', () => {
+    expect(getNameSimilarity('홍길동', '홍길동')).toBe(1);
+    expect(getNameSimilarity('', '홍길동')).toBe(0);
+  });
+
+  it('자모 하나 차이는 음절 하나 차이보다 가깝다', () => {
+    const jamoTypo = getNameSimilarity('홍길동', '홍길둥');
+    const syllableTypo = getNameSimilarity('홍길동', '홍길수');
+    expect(jamoTypo).toBeCloseTo(8 / 9);
+    expect(jamoTypo).toBeGreaterThan(syllableTypo);
+  });
+
+  it('세 글자 이름의 자모 오타는 자동 매칭, 두 글자 이름은 확인 대상', () => {
+    expect(getNameSimilarity('홍길동', '홍길둥')).toBeGreaterThanOrEqual(DEFAULT_FUZZY_AUTO_ACCEPT_THRESHOLD);
+    const shortNameTypo = getNameSimilarity('김진', '김전');
+    expect(shortNameTypo).toBeLessThan(DEFAULT_FUZZY_AUTO_ACCEPT_THRESHOLD);
+    expect(shortNameTypo).toBeGreaterThanOrEqual(DEFAULT_FUZZY_SUGGEST_THRESHOLD);
+  });
+
+  it('전혀 다른 이름은 제안 임계값 미만', () => {
+    expect(getNameSimilarity('홍길동', '김철수')).toBeLessThan(DEFAULT_FUZZY_SUGGEST_THRESHOLD);
+  });
+});
+
+describe('findNameCandidates', () => {
+  it('임계값 이상 후보만 유사도 높은 순으로 돌려준다', () => {
+    const candidates = findNameCandidates('홍길동', ['김철수', '홍길수', '홍길둥'], 0.5);
+    expect(candidates.map(candidate => candidate.signatureBaseName)).toEqual(['홍길둥', '홍길수']);
+    expect(candidates[0].confidence).toBeGreaterThan(candidates[1].confidence);
+  });
+
+  it('기본 임계값에서는 자모 오타만 제안한다', () => {
+    expect(findNameCandidates('홍길동', ['홍길수', '홍길둥']).map(candidate => candidate.signatureBaseName)).toEqual(['홍길둥']);
+  });
+});
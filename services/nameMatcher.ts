@@ -0,0 +1,120 @@
+/**
+ * 이름 유사도(퍼지) 매칭 유틸
+ * - 엑셀 성명과 서명 파일명이 오타/변형으로 정확히 일치하지 않는 경우를 보완한다.
+ * - 한글은 음절을 초성/중성/종성 자모로 분해한 뒤 편집거리를 계산하여
+ *   '홍길동' vs '홍길둥'처럼 자모 하나 차이를 음절 전체 차이보다 가깝게 평가한다.
+ */
+
+const HANGUL_SYLLABLE_START = 0xac00;
+const HANGUL_SYLLABLE_END = 0xd7a3;
+const JUNGSEONG_COUNT = 21;
+const JONGSEONG_COUNT = 28;
+
+const CHOSEONG = ['ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+const JUNGSEONG = ['ㅏ', 'ㅐ', 'ㅑ', 'ㅒ', 'ㅓ', 'ㅔ', 'ㅕ', 'ㅖ', 'ㅗ', 'ㅘ', 'ㅙ', 'ㅚ', 'ㅛ', 'ㅜ', 'ㅝ', 'ㅞ', 'ㅟ', 'ㅠ', 'ㅡ', 'ㅢ', 'ㅣ'];
+const JONGSEONG = ['', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ', 'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+
+/**
+ * 퍼지 매칭 기본 임계값
+ * - AUTO_ACCEPT 이상: 확인 없이 자동 매칭
+ * - SUGGEST 이상 AUTO_ACCEPT 미만: 미리보기 단계에서 사용자 확인 대상으로 제시
+ * - 세 글자 이름의 자모 하나 오타(홍길동/홍길둥, 8/9 ≈ 0.89)는 자동 매칭되고,
+ *   두 글자 이름의 자모 하나 오타(김진/김전, 5/6 ≈ 0.83)는 확인 대상으로 남는다.
+ */
+export const DEFAULT_FUZZY_AUTO_ACCEPT_THRESHOLD = 0.85;
+export const DEFAULT_FUZZY_SUGGEST_THRESHOLD = 0.7;
+
+export interface NameMatchCandidate {
+  signatureBaseName: string;
+  confidence: number; // 0~1
+}
+
+/**
+ * 문자열을 자모 단위 배열로 분해 (한글 외 문자는 그대로 유지)
+ */
+export const decomposeHangul = (text: string): string[] => {
+  const result: string[] = [];
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < HANGUL_SYLLABLE_START || code > HANGUL_SYLLABLE_END) {
+      result.push(char);
+      continue;
+    }
+
+    const offset = code - HANGUL_SYLLABLE_START;
+    const cho = Math.floor(offset / (JUNGSEONG_COUNT * JONGSEONG_COUNT));
+    const jung = Math.floor((offset % (JUNGSEONG_COUNT * JONGSEONG_COUNT)) / JONGSEONG_COUNT);
+    const jong = offset % JONGSEONG_COUNT;
+
+    result.push(CHOSEONG[cho], JUNGSEONG[jung]);
+    if (jong > 0) {
+      result.push(JONGSEONG[jong]);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * 두 토큰 배열의 Levenshtein 편집거리
+ * - 메모리 사용을 줄이기 위해 두 행만 유지한다.
+ */
+const levenshteinDistance = (a: string[], b: string[]): number => {
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  let current = new Array<number>(b.length + 1);
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * 정규화된 두 이름의 유사도(0~1)
+ * - 한글은 자모 단위, 영문/숫자는 문자 단위 편집거리를 사용한다.
+ */
+export const getNameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const tokensA = decomposeHangul(a);
+  const tokensB = decomposeHangul(b);
+  const maxLength = Math.max(tokensA.length, tokensB.length);
+  if (maxLength === 0) return 0;
+
+  return Math.max(0, 1 - levenshteinDistance(tokensA, tokensB) / maxLength);
+};
+
+/**
+ * 서명 이름 목록에서 유사도가 minConfidence 이상인 후보를 높은 순으로 반환
+ */
+export const findNameCandidates = (
+  normalizedName: string,
+  signatureNames: Iterable<string>,
+  minConfidence: number = DEFAULT_FUZZY_SUGGEST_THRESHOLD
+): NameMatchCandidate[] => {
+  const candidates: NameMatchCandidate[] = [];
+
+  for (const signatureBaseName of signatureNames) {
+    const confidence = getNameSimilarity(normalizedName, signatureBaseName);
+    if (confidence >= minConfidence) {
+      candidates.push({ signatureBaseName, confidence });
+    }
+  }
+
+  return candidates.sort((x, y) => y.confidence - x.confidence);
+};
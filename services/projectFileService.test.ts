@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import ExcelJS from 'exceljs';
+import { SignatureFile } from '../types';
+import { DEFAULT_PLACEHOLDER_RULES, DEFAULT_ROW_EXCLUSION_RULES } from './excelUtils';
+import { DEFAULT_INK_NORMALIZATION } from './signatureImageService';
+import { ProjectSnapshot, buildProjectFile, detectImageMimeType, openProjectFile } from './projectFileService';
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+const JPEG_BYTES = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 4, 5, 6]);
+
+const buildWorkbook = async (): Promise<ArrayBuffer> => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Sheet1');
+  sheet.addRow(['성명', '서명']);
+  sheet.addRow(['홍길동', '(인)']);
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+};
+
+const toUrl = (bytes: Uint8Array<ArrayBuffer>, type: string) => URL.createObjectURL(new Blob([bytes], { type }));
+
+describe('detectImageMimeType', () => {
+  it('파일 서명으로 형식을 판별한다', () => {
+    expect(detectImageMimeType(PNG_BYTES.buffer)).toBe('image/png');
+    expect(detectImageMimeType(JPEG_BYTES.buffer)).toBe('image/jpeg');
+    expect(detectImageMimeType(new TextEncoder().encode('GIF89a').buffer)).toBe('image/gif');
+    expect(detectImageMimeType(new TextEncoder().encode('RIFF\0\0\0\0WEBP').buffer)).toBe('image/webp');
+  });
+});
+
+describe('buildProjectFile / openProjectFile', () => {
+  it('정리 원본, 임계값, 품질 경고와 정리·내보내기 설정을 함께 복원한다', async () => {
+    const signature: SignatureFile = {
+      name: '홍길동',
+      variant: '홍길동_1.jpg',
+      previewUrl: toUrl(PNG_BYTES, 'image/png'),
+      sourceUrl: toUrl(JPEG_BYTES, 'image/jpeg'),
+      width: 120,
+      height: 40,
+      backgroundThreshold: 190,
+      qualityIssues: ['noisy'],
+    };
+    const snapshot: ProjectSnapshot = {
+      excelFileName: 'roster.xlsx',
+      excelBuffer: await buildWorkbook(),
+      signatures: new Map([['홍길동', [signature]]]),
+      assignments: new Map(),
+      variationStrength: 40,
+      matchSeed: 'seed-1',
+      sheetMappings: new Map(),
+      placeholderRules: DEFAULT_PLACEHOLDER_RULES,
+      rowExclusionRules: DEFAULT_ROW_EXCLUSION_RULES,
+      nameAliases: new Map(),
+      rejectedNameMatches: new Set(),
+      attendanceLog: null,
+      matchEdited: true,
+      lockScopes: { rows: new Set(['s0:2']), persons: new Set(['홍길동']) },
+      placeholderText: { mode: 'replace', text: '서명완료' },
+      trimPadding: 4,
+      inkNormalization: { color: 'black', contrast: true },
+      personInkNormalization: { 홍길동: { color: 'blue', contrast: false } },
+    };
+
+    const blob = await buildProjectFile(snapshot);
+    const file = new File([blob], 'roster.ssproj');
+    const opened = await openProjectFile(file, source => URL.createObjectURL(source));
+
+    const restored = opened.signatures.get('홍길동')![0];
+    expect(restored).toMatchObject({ variant: '홍길동_1.jpg', width: 120, height: 40, backgroundThreshold: 190, qualityIssues: ['noisy'] });
+    expect((await (await fetch(restored.previewUrl)).blob()).type).toBe('image/png');
+    const source = await (await fetch(restored.sourceUrl!)).blob();
+    expect(source.type).toBe('image/jpeg');
+    expect(new Uint8Array(await source.arrayBuffer())).toEqual(JPEG_BYTES);
+
+    expect(opened.placeholderText).toEqual(snapshot.placeholderText);
+    expect(opened.trimPadding).toBe(4);
+    expect(opened.inkNormalization).toEqual(snapshot.inkNormalization);
+    expect(opened.personInkNormalization).toEqual(snapshot.personInkNormalization);
+    expect(opened.matchSeed).toBe('seed-1');
+    expect(opened.matchEdited).toBe(true);
+    expect(opened.lockScopes).toEqual(snapshot.lockScopes);
+  });
+
+  it('정리하지 않은 서명은 원본을 따로 저장하지 않는다', async () => {
+    const previewUrl = toUrl(PNG_BYTES, 'image/png');
+    const snapshot: ProjectSnapshot = {
+      excelFileName: 'roster.xlsx',
+      excelBuffer: await buildWorkbook(),
+      signatures: new Map([['홍길동', [{ name: '홍길동', variant: '홍길동_1.png', previewUrl, width: 10, height: 10 }]]]),
+      assignments: new Map(),
+      variationStrength: 70,
+      matchSeed: null,
+      sheetMappings: new Map(),
+      placeholderRules: DEFAULT_PLACEHOLDER_RULES,
+      rowExclusionRules: DEFAULT_ROW_EXCLUSION_RULES,
+      nameAliases: new Map(),
+      rejectedNameMatches: new Set(),
+      attendanceLog: null,
+      matchEdited: false,
+      lockScopes: { rows: new Set(), persons: new Set() },
+      placeholderText: { mode: 'keep' },
+      trimPadding: null,
+      inkNormalization: DEFAULT_INK_NORMALIZATION,
+      personInkNormalization: {},
+    };
+
+    const opened = await openProjectFile(new File([await buildProjectFile(snapshot)], 'p.ssproj'), source => URL.createObjectURL(source));
+    const restored = opened.signatures.get('홍길동')![0];
+    expect(restored.sourceUrl).toBeUndefined();
+    expect(restored.backgroundThreshold).toBeUndefined();
+    expect(opened.trimPadding).toBeNull();
+  });
+});
@@ -0,0 +1,307 @@
+import JSZip from 'jszip';
+import {
+  SignatureFile,
+  SignatureAssignment,
+  SheetData,
+  SheetColumnMapping,
+  PlaceholderRules,
+  RowExclusionRules,
+  AttendanceLog,
+  AttendanceRecord,
+  SignatureQualityIssue,
+  AssignmentLockScopes,
+} from '../types';
+import { parseExcelFile, PlaceholderTextOption } from './excelService';
+import { buildAttendanceLog } from './attendanceService';
+import { DEFAULT_PLACEHOLDER_RULES, DEFAULT_ROW_EXCLUSION_RULES } from './excelUtils';
+import { DEFAULT_INK_NORMALIZATION, DEFAULT_TRIM_PADDING, InkNormalization } from './signatureImageService';
+
+/**
+ * 서명 작업 프로젝트 파일(.ssproj) 저장/열기
+ * - 원본 워크북, 서명 이미지(정리본 + 업로드 원본), 배치 결과(assignments)와 매칭·정리·내보내기 설정을 하나의 ZIP으로 묶는다.
+ * - 다시 열면 같은 배치로 이어서 편집하거나 동일하게 재내보내기할 수 있다.
+ */
+
+export const PROJECT_FILE_EXTENSION = '.ssproj';
+/**
+ * 2: 서명 원본/배경 임계값/품질 경고/MIME 형식, 여백·획 색 설정, placeholder 문구 옵션, 수동 편집 여부 추가
+ */
+const PROJECT_FORMAT_VERSION = 2;
+const MANIFEST_PATH = 'project.json';
+const WORKBOOK_PATH = 'workbook.xlsx';
+const SIGNATURE_DIR = 'signatures/';
+
+/**
+ * 프로젝트로 저장/복원하는 작업 상태
+ */
+export interface ProjectSnapshot {
+  excelFileName: string;
+  excelBuffer: ArrayBuffer;
+  signatures: Map<string, SignatureFile[]>;
+  assignments: Map<string, SignatureAssignment>;
+  variationStrength: number;
+  matchSeed: string | null;
+  sheetMappings: Map<number, SheetColumnMapping>;
+  placeholderRules: PlaceholderRules;
+  rowExclusionRules: RowExclusionRules;
+  nameAliases: Map<string, string>;
+  rejectedNameMatches: Set<string>;
+  attendanceLog: AttendanceLog | null;
+  matchEdited: boolean;
+  lockScopes: AssignmentLockScopes;
+  placeholderText: PlaceholderTextOption;
+  trimPadding: number | null;
+  inkNormalization: InkNormalization;
+  personInkNormalization: Record<string, InkNormalization>;
+}
+
+export interface OpenedProject extends ProjectSnapshot {
+  sheetData: SheetData;
+  savedAt: string;
+}
+
+interface ProjectManifestSignature {
+  key: string; // 서명 Map 키
+  name: string;
+  qualifier?: string;
+  variant: string;
+  width: number;
+  height: number;
+  path: string; // ZIP 내부 이미지 경로
+  mimeType?: string; // 이전 버전 프로젝트에는 없음 (이미지 바이트로 판별)
+  source?: { path: string; mimeType: string }; // 배경 제거/여백/획 색 정리 전 업로드 원본
+  backgroundThreshold?: number;
+  qualityIssues?: SignatureQualityIssue[];
+}
+
+interface ProjectManifest {
+  version: number;
+  savedAt: string;
+  excelFileName: string;
+  variationStrength: number;
+  matchSeed: string | null;
+  sheetMappings: [number, SheetColumnMapping][];
+  placeholderRules: PlaceholderRules;
+  rowExclusionRules?: RowExclusionRules; // 이전 버전 프로젝트에는 없음
+  nameAliases: [string, string][];
+  rejectedNameMatches: string[];
+  attendanceLog: { fileName: string; records: AttendanceRecord[] } | null;
+  signatures: ProjectManifestSignature[];
+  assignments: [string, SignatureAssignment][];
+  // 아래는 버전 2부터 저장 (이전 버전은 기본값)
+  matchEdited?: boolean;
+  lockScopes?: { rows: string[]; persons: string[] };
+  placeholderText?: PlaceholderTextOption;
+  trimPadding?: number | null;
+  inkNormalization?: InkNormalization;
+  personInkNormalization?: Record<string, InkNormalization>;
+}
+
+/**
+ * ZIP 내부 경로로 쓸 수 없는 문자 치환 (원본 파일명은 manifest에 보존)
+ */
+const toSafeEntryName = (value: string) => value.replace(/[\\/:*?"<>|]/g, '_');
+
+/**
+ * 세션 Object URL의 이미지 바이트와 MIME 형식 읽기
+ */
+const readImageUrl = async (url: string, variant: string): Promise<{ data: ArrayBuffer; mimeType: string }> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`서명 이미지를 읽을 수 없습니다: ${variant}`);
+  }
+  const blob = await response.blob();
+  return { data: await blob.arrayBuffer(), mimeType: blob.type };
+};
+
+/**
+ * 이미지 바이트의 파일 서명으로 MIME 형식 판별 (알 수 없으면 PNG)
+ * - 정리된 서명은 원래 확장자와 관계없이 PNG이므로 파일명으로 추측하지 않는다.
+ */
+export const detectImageMimeType = (data: ArrayBuffer): string => {
+  const bytes = new Uint8Array(data, 0, Math.min(12, data.byteLength));
+  const startsWith = (...signature: number[]) => signature.every((value, index) => bytes[index] === value);
+  if (startsWith(0xff, 0xd8, 0xff)) return 'image/jpeg';
+  if (startsWith(0x47, 0x49, 0x46, 0x38)) return 'image/gif';
+  if (startsWith(0x52, 0x49, 0x46, 0x46) && String.fromCharCode(...Array.from(bytes.slice(8, 12))) === 'WEBP') return 'image/webp';
+  if (startsWith(0x42, 0x4d)) return 'image/bmp';
+  return 'image/png';
+};
+
+/**
+ * 현재 작업 상태를 프로젝트 파일 Blob으로 저장
+ */
+export const buildProjectFile = async (snapshot: ProjectSnapshot): Promise<Blob> => {
+  const zip = new JSZip();
+  const manifestSignatures: ProjectManifestSignature[] = [];
+  let imageIndex = 0;
+
+  for (const [key, list] of snapshot.signatures) {
+    for (const sig of list) {
+      // Object URL은 세션 한정이므로 실제 이미지 바이트를 꺼내 저장한다.
+      const entryName = `${String(imageIndex++).padStart(4, '0')}_${toSafeEntryName(sig.variant)}`;
+      const image = await readImageUrl(sig.previewUrl, sig.variant);
+      const path = `${SIGNATURE_DIR}${entryName}`;
+      zip.file(path, image.data);
+
+      // 정리본과 업로드 원본이 다르면 원본도 저장해 다시 열어도 원본에서 재정리할 수 있게 한다.
+      let source: ProjectManifestSignature['source'];
+      if (sig.sourceUrl && sig.sourceUrl !== sig.previewUrl) {
+        const original = await readImageUrl(sig.sourceUrl, sig.variant);
+        source = { path: `${SIGNATURE_DIR}source/${entryName}`, mimeType: original.mimeType || detectImageMimeType(original.data) };
+        zip.file(source.path, original.data);
+      }
+
+      manifestSignatures.push({
+        key,
+        name: sig.name,
+        ...(sig.qualifier ? { qualifier: sig.qualifier } : {}),
+        variant: sig.variant,
+        width: sig.width,
+        height: sig.height,
+        path,
+        mimeType: image.mimeType || detectImageMimeType(image.data),
+        ...(source ? { source } : {}),
+        ...(sig.backgroundThreshold !== undefined ? { backgroundThreshold: sig.backgroundThreshold } : {}),
+        ...(sig.qualityIssues && sig.qualityIssues.length > 0 ? { qualityIssues: sig.qualityIssues } : {}),
+      });
+    }
+  }
+
+  const manifest: ProjectManifest = {
+    version: PROJECT_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    excelFileName: snapshot.excelFileName,
+    variationStrength: snapshot.variationStrength,
+    matchSeed: snapshot.matchSeed,
+    sheetMappings: Array.from(snapshot.sheetMappings.entries()),
+    placeholderRules: snapshot.placeholderRules,
+    rowExclusionRules: snapshot.rowExclusionRules,
+    nameAliases: Array.from(snapshot.nameAliases.entries()),
+    rejectedNameMatches: Array.from(snapshot.rejectedNameMatches),
+    attendanceLog: snapshot.attendanceLog
+      ? { fileName: snapshot.attendanceLog.fileName, records: snapshot.attendanceLog.records }
+      : null,
+    signatures: manifestSignatures,
+    assignments: Array.from(snapshot.assignments.entries()),
+    matchEdited: snapshot.matchEdited,
+    lockScopes: { rows: Array.from(snapshot.lockScopes.rows), persons: Array.from(snapshot.lockScopes.persons) },
+    placeholderText: snapshot.placeholderText,
+    trimPadding: snapshot.trimPadding,
+    inkNormalization: snapshot.inkNormalization,
+    personInkNormalization: snapshot.personInkNormalization,
+  };
+
+  zip.file(WORKBOOK_PATH, snapshot.excelBuffer);
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  console.log(`[프로젝트 저장] 서명 ${manifestSignatures.length}개, 배치 ${snapshot.assignments.size}개`);
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+};
+
+/**
+ * 프로젝트 파일을 열어 작업 상태를 복원
+ * @param createPreviewUrl 서명 이미지 Blob -> 미리보기 URL (호출부에서 해제 추적)
+ */
+export const openProjectFile = async (
+  file: File,
+  createPreviewUrl: (blob: Blob) => string
+): Promise<OpenedProject> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new Error('프로젝트 파일을 열 수 없습니다. .ssproj 파일인지 확인해주세요.');
+  }
+
+  const manifestEntry = zip.file(MANIFEST_PATH);
+  const workbookEntry = zip.file(WORKBOOK_PATH);
+  if (!manifestEntry || !workbookEntry) {
+    throw new Error('프로젝트 파일 구성이 올바르지 않습니다. (project.json 또는 workbook.xlsx 없음)');
+  }
+
+  let manifest: ProjectManifest;
+  try {
+    manifest = JSON.parse(await manifestEntry.async('string'));
+  } catch {
+    throw new Error('프로젝트 정보(project.json)를 읽을 수 없습니다.');
+  }
+
+  if (typeof manifest.version !== 'number' || manifest.version > PROJECT_FORMAT_VERSION) {
+    throw new Error('이 버전에서 열 수 없는 프로젝트 파일입니다. 프로그램을 업데이트해주세요.');
+  }
+
+  const excelBuffer = await workbookEntry.async('arraybuffer');
+  const sheetData = await parseExcelFile(excelBuffer);
+
+  const signatures = new Map<string, SignatureFile[]>();
+  for (const entry of manifest.signatures || []) {
+    const imageEntry = zip.file(entry.path);
+    if (!imageEntry) {
+      console.warn(`[프로젝트 열기] 서명 이미지 누락: ${entry.variant}`);
+      continue;
+    }
+
+    const data = await imageEntry.async('arraybuffer');
+    const blob = new Blob([data], { type: entry.mimeType || detectImageMimeType(data) });
+
+    // 원본이 빠져 있으면 정리본만으로 복원한다. (정리는 정리본을 원본 삼아 다시 적용)
+    const sourceEntry = entry.source ? zip.file(entry.source.path) : null;
+    let sourceUrl: string | undefined;
+    if (entry.source && sourceEntry) {
+      sourceUrl = createPreviewUrl(new Blob([await sourceEntry.async('arraybuffer')], { type: entry.source.mimeType }));
+    } else if (entry.source) {
+      console.warn(`[프로젝트 열기] 서명 원본 이미지 누락: ${entry.variant}`);
+    }
+
+    const list = signatures.get(entry.key) || [];
+    list.push({
+      name: entry.name,
+      variant: entry.variant,
+      previewUrl: createPreviewUrl(blob),
+      width: entry.width,
+      height: entry.height,
+      ...(entry.qualifier ? { qualifier: entry.qualifier } : {}),
+      ...(sourceUrl ? { sourceUrl } : {}),
+      ...(sourceUrl && entry.backgroundThreshold !== undefined ? { backgroundThreshold: entry.backgroundThreshold } : {}),
+      ...(entry.qualityIssues && entry.qualityIssues.length > 0 ? { qualityIssues: entry.qualityIssues } : {}),
+    });
+    signatures.set(entry.key, list);
+  }
+
+  // 이미지가 빠진 서명을 참조하는 배치는 내보내기 오류를 막기 위해 제외한다.
+  const assignments = new Map<string, SignatureAssignment>();
+  for (const [key, assignment] of manifest.assignments || []) {
+    const hasVariant = signatures.get(assignment.signatureBaseName)?.some(sig => sig.variant === assignment.signatureVariantId);
+    if (hasVariant) {
+      assignments.set(key, assignment);
+    }
+  }
+
+  console.log(`[프로젝트 열기] ${file.name}: 서명 ${signatures.size}명, 배치 ${assignments.size}개`);
+
+  return {
+    excelFileName: manifest.excelFileName || 'project.xlsx',
+    excelBuffer,
+    sheetData,
+    signatures,
+    assignments,
+    variationStrength: manifest.variationStrength ?? 70,
+    matchSeed: manifest.matchSeed ?? null,
+    sheetMappings: new Map(manifest.sheetMappings || []),
+    placeholderRules: { ...DEFAULT_PLACEHOLDER_RULES, ...manifest.placeholderRules },
+    rowExclusionRules: { ...DEFAULT_ROW_EXCLUSION_RULES, ...manifest.rowExclusionRules },
+    nameAliases: new Map(manifest.nameAliases || []),
+    rejectedNameMatches: new Set(manifest.rejectedNameMatches || []),
+    attendanceLog: manifest.attendanceLog
+      ? buildAttendanceLog(manifest.attendanceLog.fileName, manifest.attendanceLog.records)
+      : null,
+    matchEdited: manifest.matchEdited ?? false,
+    lockScopes: { rows: new Set(manifest.lockScopes?.rows || []), persons: new Set(manifest.lockScopes?.persons || []) },
+    placeholderText: manifest.placeholderText ?? { mode: 'keep' },
+    trimPadding: manifest.trimPadding !== undefined ? manifest.trimPadding : DEFAULT_TRIM_PADDING,
+    inkNormalization: { ...DEFAULT_INK_NORMALIZATION, ...manifest.inkNormalization },
+    personInkNormalization: manifest.personInkNormalization || {},
+    savedAt: manifest.savedAt,
+  };
+};
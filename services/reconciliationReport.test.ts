@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { MatchReconciliation } from './excelService';
+import { buildReconciliationCsv, countReconciliationIssues } from './reconciliationReport';
+
+const reconciliation: MatchReconciliation = {
+  unmatchedNames: [{ sheetName: '3월', personName: '홍길순', rows: [4, 9], hasSuggestion: true }],
+  unusedSignatures: [{ signatureKey: '김철수', fileNames: ['김철수_1.png', '김철수_2.png'] }],
+  mergedInteriorSkips: [{ sheetName: '3월', address: 'C5', personName: '이영희' }],
+  skippedSheets: [{ sheetIndex: 2, sheetName: '요약, 합계' }],
+  excludedRows: [{ sheetName: '3월', row: 7, address: 'A7', personName: '박민수', reason: 'status', detail: '퇴사 "3/2"' }],
+};
+
+describe('reconciliationReport', () => {
+  it('모든 항목 건수를 합친다', () => {
+    expect(countReconciliationIssues(reconciliation)).toBe(5);
+  });
+
+  it('BOM과 CRLF로 된 CSV를 만들고 쉼표·따옴표는 이스케이프한다', () => {
+    const csv = buildReconciliationCsv(reconciliation);
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(csv.slice(1).split('\r\n')).toEqual([
+      '구분,시트,위치,성명/서명,비고',
+      '서명 파일 없음,3월,4 9행,홍길순,유사 이름 확인 대기',
+      '미사용 서명,,,김철수,김철수_1.png / 김철수_2.png',
+      '병합셀 내부 스킵,3월,C5,이영희,',
+      '시트 스킵,"요약, 합계",,,성명 헤더를 찾지 못함',
+      '제외 행,3월,A7,박민수,"비고: 퇴사 ""3/2"""',
+    ]);
+  });
+});
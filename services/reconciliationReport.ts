@@ -0,0 +1,64 @@
+import { MatchReconciliation, RowExclusionReason } from './excelService';
+
+/**
+ * 매칭 대사 결과 CSV 변환
+ * - 엑셀에서 바로 열 수 있도록 UTF-8 BOM을 붙이고 한 줄에 한 항목씩 기록한다.
+ */
+
+const CSV_HEADER = ['구분', '시트', '위치', '성명/서명', '비고'];
+
+const escapeCsvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const ROW_EXCLUSION_REASON_LABELS: Record<RowExclusionReason, string> = {
+  status: '비고',
+  strikethrough: '취소선',
+  fill: '배경색',
+  hidden: '숨긴 행',
+};
+
+/**
+ * 대사 결과 건수 합계 (패널 표시/빈 결과 판단용)
+ */
+export const countReconciliationIssues = (reconciliation: MatchReconciliation) => {
+  return reconciliation.unmatchedNames.length
+    + reconciliation.unusedSignatures.length
+    + reconciliation.mergedInteriorSkips.length
+    + reconciliation.skippedSheets.length
+    + reconciliation.excludedRows.length;
+};
+
+export const buildReconciliationCsv = (reconciliation: MatchReconciliation): string => {
+  const rows: (string | number)[][] = [CSV_HEADER];
+
+  for (const entry of reconciliation.unmatchedNames) {
+    rows.push([
+      '서명 파일 없음',
+      entry.sheetName,
+      `${entry.rows.join(' ')}행`,
+      entry.personName,
+      entry.hasSuggestion ? '유사 이름 확인 대기' : '',
+    ]);
+  }
+
+  for (const entry of reconciliation.unusedSignatures) {
+    rows.push(['미사용 서명', '', '', entry.signatureKey, entry.fileNames.join(' / ')]);
+  }
+
+  for (const entry of reconciliation.mergedInteriorSkips) {
+    rows.push(['병합셀 내부 스킵', entry.sheetName, entry.address, entry.personName, '']);
+  }
+
+  for (const entry of reconciliation.skippedSheets) {
+    rows.push(['시트 스킵', entry.sheetName, '', '', '성명 헤더를 찾지 못함']);
+  }
+
+  for (const entry of reconciliation.excludedRows) {
+    const reason = ROW_EXCLUSION_REASON_LABELS[entry.reason];
+    rows.push(['제외 행', entry.sheetName, entry.address, entry.personName, entry.detail ? `${reason}: ${entry.detail}` : reason]);
+  }
+
+  return '\uFEFF' + rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+};
@@ -0,0 +1,147 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import heic2any from 'heic2any';
+import {
+  drawFixture,
+  fixtureToBlob,
+  installCanvasEnvironment,
+  readPixels,
+  setCanvasEnvironmentOptions,
+  withJpegOrientation,
+} from './canvasTestEnvironment';
+import {
+  EDGE_SOFTNESS,
+  estimateBackgroundThreshold,
+  InkNormalization,
+  loadImageData,
+  normalizeSignatureSource,
+  processSignatureImage,
+  resolveInkNormalization,
+} from './signatureImageService';
+
+vi.mock('heic2any', () => ({ default: vi.fn() }));
+
+beforeAll(() => {
+  installCanvasEnvironment();
+});
+
+/** 밝기 230 종이 위 진한 획(10~29, 8~11)과 밝기 180 가장자리 픽셀(2x2) */
+const scannedSignature = () => fixtureToBlob(drawFixture(40, 20, '#e6e6e6', [
+  [10, 8, 20, 4, '#202020'],
+  [34, 2, 2, 2, '#b4b4b4'],
+]));
+
+describe('배경 제거', () => {
+  it('종이 밝기에서 자동 임계값을 추정하고 이미 투명한 이미지는 건너뛴다', async () => {
+    expect(estimateBackgroundThreshold(await loadImageData(scannedSignature()))).toBe(205);
+    const transparent = fixtureToBlob(drawFixture(10, 10, 'rgba(0, 0, 0, 0)', [[2, 2, 3, 3, '#000']]));
+    expect(estimateBackgroundThreshold(await loadImageData(transparent))).toBeNull();
+  });
+
+  it('임계값보다 밝은 종이는 투명하게, 획은 그대로, 사이 밝기는 부드럽게 남긴다', async () => {
+    const result = await processSignatureImage(scannedSignature());
+    expect(result.threshold).toBe(205);
+
+    const pixels = await readPixels(result.blob);
+    expect([pixels.width, pixels.height]).toEqual([40, 20]);
+    expect(pixels.at(0, 0)[3]).toBe(0);
+    expect(pixels.at(15, 9)).toEqual([32, 32, 32, 255]);
+    expect(pixels.at(34, 2)[3]).toBe(Math.round(255 * (205 - 180) / EDGE_SOFTNESS));
+  });
+
+  it('지정한 임계값을 쓰고 null이면 배경을 지우지 않는다', async () => {
+    const strict = await readPixels((await processSignatureImage(scannedSignature(), { threshold: 175 })).blob);
+    expect(strict.at(34, 2)[3]).toBe(0);
+    expect(strict.at(15, 9)[3]).toBe(255);
+
+    const untouched = await processSignatureImage(scannedSignature(), { threshold: null });
+    expect(untouched.threshold).toBeNull();
+    expect((await readPixels(untouched.blob)).at(0, 0)).toEqual([230, 230, 230, 255]);
+  });
+
+  it('배경을 지운 뒤 획 경계 상자와 여백만 남기고 자른다', async () => {
+    const result = await processSignatureImage(
+      fixtureToBlob(drawFixture(40, 20, '#e6e6e6', [[10, 8, 20, 4, '#202020']])),
+      { trimPadding: 2 }
+    );
+    expect([result.width, result.height]).toEqual([24, 8]);
+    const pixels = await readPixels(result.blob);
+    expect(pixels.at(0, 0)[3]).toBe(0);
+    expect(pixels.at(2, 2)[3]).toBe(255);
+  });
+});
+
+describe('획 색/대비 정규화', () => {
+  /** 갈색 획(밝기 약 64)과 옅은 회색 획(밝기 140) */
+  const inkSample = () => fixtureToBlob(drawFixture(40, 20, '#e6e6e6', [
+    [10, 8, 20, 4, 'rgb(80, 60, 40)'],
+    [2, 2, 4, 4, 'rgb(140, 140, 140)'],
+  ]));
+  const inkPixels = async (ink: InkNormalization) => readPixels((await processSignatureImage(inkSample(), { ink })).blob);
+
+  it('색 통일은 진하기만 남기고 잉크 색으로 칠하며 지운 배경은 투명하게 둔다', async () => {
+    const pixels = await inkPixels({ color: 'black', contrast: false });
+    expect(pixels.at(15, 9)).toEqual([76, 76, 76, 255]);
+    expect(pixels.at(3, 3)).toEqual([148, 148, 148, 255]);
+    expect(pixels.at(0, 0)[3]).toBe(0);
+  });
+
+  it('대비 정규화는 가장 진한 획을 잉크 색 최대 농도로 늘린다', async () => {
+    const pixels = await inkPixels({ color: 'blue', contrast: true });
+    expect(pixels.at(15, 9)).toEqual([24, 54, 160, 255]);
+    const light = pixels.at(3, 3);
+    expect(light[2]).toBeGreaterThan(light[0]);
+    expect(light[0]).toBeGreaterThan(24);
+  });
+
+  it('개인별 설정이 있는 사람만 전체 설정 대신 그 설정으로 정리한다', async () => {
+    const defaultInk: InkNormalization = { color: 'black', contrast: false };
+    const personInk: Record<string, InkNormalization> = { 김철수: { color: 'blue', contrast: true } };
+    expect(resolveInkNormalization('홍길동', personInk, defaultInk)).toBe(defaultInk);
+
+    const hong = await inkPixels(resolveInkNormalization('홍길동', personInk, defaultInk));
+    const kim = await inkPixels(resolveInkNormalization('김철수', personInk, defaultInk));
+    expect(hong.at(15, 9)).toEqual([76, 76, 76, 255]);
+    expect(kim.at(15, 9)).toEqual([24, 54, 160, 255]);
+  });
+});
+
+describe('서명 원본 정리 (HEIC/EXIF)', () => {
+  /** 왼쪽 절반이 검은 40x10 사진을 EXIF 방향 6(시계 방향 90도)으로 저장한 JPEG */
+  const rotatedPhoto = () => {
+    const jpeg = drawFixture(40, 10, '#fff', [[0, 0, 20, 10, '#000']]).toBuffer('image/jpeg');
+    return new File([new Uint8Array(withJpegOrientation(jpeg, 6))], 'photo.jpg', { type: 'image/jpeg' });
+  };
+
+  const expectUpright = async (result: { blob: Blob; width: number; height: number }) => {
+    expect([result.width, result.height]).toEqual([10, 40]);
+    const pixels = await readPixels(result.blob);
+    expect([pixels.width, pixels.height]).toEqual([10, 40]);
+    expect(pixels.at(5, 5)[0]).toBeLessThan(40);
+    expect(pixels.at(5, 35)[0]).toBeGreaterThan(215);
+  };
+
+  afterEach(() => {
+    setCanvasEnvironmentOptions({ exifOrientation: 'apply' });
+  });
+
+  it('EXIF 방향대로 가로세로를 바꾼 PNG를 만든다', async () => {
+    const result = await normalizeSignatureSource(rotatedPhoto());
+    expect(result.blob.type).toBe('image/png');
+    await expectUpright(result);
+  });
+
+  it('디코더가 EXIF 방향을 무시해도 직접 돌려 같은 결과를 만든다', async () => {
+    setCanvasEnvironmentOptions({ exifOrientation: 'ignore' });
+    await expectUpright(await normalizeSignatureSource(rotatedPhoto()));
+  });
+
+  it('HEIC는 heic2any로 PNG 변환한 뒤 정리한다', async () => {
+    vi.mocked(heic2any).mockResolvedValueOnce(fixtureToBlob(drawFixture(30, 12, '#fff', [[0, 0, 10, 12, '#000']])));
+    const file = new File([new Uint8Array([0, 0, 0, 24])], 'IMG_0001.HEIC', { type: '' });
+
+    const result = await normalizeSignatureSource(file);
+    expect(heic2any).toHaveBeenCalledWith({ blob: file, toType: 'image/png' });
+    expect([result.width, result.height]).toEqual([30, 12]);
+    expect((await readPixels(result.blob)).at(2, 2)[0]).toBe(0);
+  });
+});
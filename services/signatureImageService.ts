@@ -0,0 +1,456 @@
+/**
+ * 업로드 서명 이미지 정리
+ * - HEIC/EXIF 회전 사진을 포함해 모든 입력을 바로 선 PNG로 통일한다.
+ * - 스캔/촬영한 서명의 종이 배경(흰색·회색)을 투명하게 바꿔 셀 테두리와 글자를 가리지 않게 한다.
+ * - 필요하면 획 색을 검정/파랑으로 통일하고 대비를 높인다. (내보내기 시 회전 전에 이미 반영됨)
+ * - 획 주변의 빈 여백을 잘라 내보내기 크기 계산(가로세로 비율)이 실제 획 기준이 되게 한다.
+ * - 결과 PNG는 SignatureFile.previewUrl로 쓰여 미리보기와 generateFinalExcel 모두에 반영된다.
+ */
+
+export const BACKGROUND_THRESHOLD_RANGE = { min: 100, max: 250, step: 5 };
+export const DEFAULT_TRIM_PADDING = 8;
+
+export type InkColorMode = 'keep' | 'black' | 'blue';
+
+export interface InkNormalization {
+  color: InkColorMode; // keep: 원래 색 유지
+  contrast: boolean; // 가장 진한 획은 최대 농도로, 종이 밝기는 흰색으로 늘린다.
+}
+
+export const DEFAULT_INK_NORMALIZATION: InkNormalization = { color: 'keep', contrast: false };
+
+/** 획 색 통일 시 사용할 잉크 색 (RGB) */
+const INK_COLORS: Record<Exclude<InkColorMode, 'keep'>, [number, number, number]> = {
+  black: [17, 17, 17],
+  blue: [24, 54, 160],
+};
+/** 대비 정규화 시 가장 진한 획으로 보는 하위 백분위 (노이즈 픽셀 제외) */
+const INK_DARK_PERCENTILE = 0.02;
+
+/** 임계값 아래로 이 폭만큼은 점점 불투명해지게 해 획 가장자리를 부드럽게 남긴다. */
+export const EDGE_SOFTNESS = 40;
+/** 획으로 인정하는 최소 불투명도 (배경 제거 가장자리의 옅은 잔여 픽셀 제외) */
+export const INK_ALPHA_MIN = 32;
+/** 이미 투명 배경인 이미지로 보는 투명 픽셀 비율 */
+const TRANSPARENT_SOURCE_RATIO = 0.2;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const getLuminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+interface DecodedImage {
+  drawable: CanvasImageSource;
+  width: number;
+  height: number;
+  release: () => void;
+}
+
+/**
+ * 이미지 Blob 디코딩
+ * - createImageBitmap에는 EXIF 방향을 적용하도록 명시한다. (옵션을 모르는 브라우저는 기본 디코딩)
+ */
+const decodeImage = async (source: Blob): Promise<DecodedImage> => {
+  if ('createImageBitmap' in window) {
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+    } catch {
+      bitmap = await createImageBitmap(source);
+    }
+    return { drawable: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+  }
+
+  const url = URL.createObjectURL(source);
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const element = new Image();
+    element.onload = () => resolve(element);
+    element.onerror = () => reject(new Error('이미지를 읽을 수 없습니다.'));
+    element.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+  return { drawable: img, width: img.width, height: img.height, release: () => {} };
+};
+
+/**
+ * 이미지 Blob을 캔버스 픽셀 데이터로 읽는다.
+ */
+export const loadImageData = async (source: Blob): Promise<ImageData> => {
+  const { drawable, width, height, release } = await decodeImage(source);
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, width);
+    canvas.height = Math.max(1, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas context not available');
+
+    ctx.drawImage(drawable, 0, 0);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  } finally {
+    release();
+  }
+};
+
+/**
+ * 픽셀 데이터를 PNG Blob으로 저장
+ */
+export const imageDataToPngBlob = (imageData: ImageData): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas context not available'));
+
+  ctx.putImageData(imageData, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      canvas.width = 1;
+      canvas.height = 1;
+      if (blob) resolve(blob);
+      else reject(new Error('PNG 변환 실패'));
+    }, 'image/png');
+  });
+};
+
+const HEIC_MIME_TYPES = ['image/heic', 'image/heif'];
+
+export const isHeicImage = (file: File) =>
+  HEIC_MIME_TYPES.includes(file.type.toLowerCase()) || /\.(heic|heif)$/i.test(file.name);
+
+/** EXIF/SOF를 찾을 JPEG 앞부분 크기 (APP1 썸네일이 커도 대부분 이 안에 있다) */
+const JPEG_HEADER_SCAN_BYTES = 256 * 1024;
+
+/**
+ * TIFF(IFD0)에서 Orientation(0x0112) 태그 읽기
+ */
+const readTiffOrientation = (view: DataView, tiffStart: number): number | null => {
+  if (tiffStart + 8 > view.byteLength) return null;
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  if (ifdStart + 2 > view.byteLength) return null;
+
+  const entryCount = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    if (view.getUint16(entry, littleEndian) === 0x0112) {
+      const value = view.getUint16(entry + 8, littleEndian);
+      return value >= 1 && value <= 8 ? value : null;
+    }
+  }
+  return null;
+};
+
+/**
+ * JPEG의 EXIF 방향값과 원본(회전 전) 픽셀 크기
+ * @returns JPEG가 아니거나 크기 정보(SOF)를 찾지 못하면 null
+ */
+export const readJpegOrientation = (buffer: ArrayBuffer): { orientation: number; width: number; height: number } | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return null;
+
+  let orientation = 1;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) break; // 마커 아님 / 이미지 데이터 시작
+
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) { // 'Exif'
+      orientation = readTiffOrientation(view, offset + 10) ?? 1;
+    } else if (marker >= 0xFFC0 && marker <= 0xFFCF && marker !== 0xFFC4 && marker !== 0xFFC8 && marker !== 0xFFCC) {
+      if (offset + 9 > view.byteLength) break;
+      return { orientation, width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+/**
+ * EXIF 방향값(1~8)을 바로 세우는 캔버스 변환 (width/height는 원본 픽셀 기준)
+ */
+const applyOrientationTransform = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+};
+
+/**
+ * 가져온 서명 이미지를 바로 선 PNG로 통일
+ * - HEIC/HEIF는 번들된 디코더(heic2any)로 먼저 변환한다. (필요할 때만 불러옴)
+ * - JPEG EXIF 방향은 브라우저 디코더가 적용하지만, 90도 회전 방향인데 디코딩 크기가
+ *   원본 픽셀 크기와 같으면 무시된 것으로 보고 직접 돌린다.
+ * - 결과에는 EXIF가 없으므로 이후 미리보기/내보내기 회전(rotateImage)은 항상 바로 선 이미지 기준이다.
+ */
+export const normalizeSignatureSource = async (file: File): Promise<{ blob: Blob; width: number; height: number }> => {
+  let source: Blob = file;
+  if (isHeicImage(file)) {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/png' });
+    source = Array.isArray(converted) ? converted[0] : converted;
+  }
+
+  const exif = source.type === 'image/jpeg'
+    ? readJpegOrientation(await source.slice(0, JPEG_HEADER_SCAN_BYTES).arrayBuffer())
+    : null;
+  const { drawable, width, height, release } = await decodeImage(source);
+
+  try {
+    let orientation = 1;
+    if (exif && exif.orientation >= 5 && exif.width !== exif.height && width === exif.width && height === exif.height) {
+      orientation = exif.orientation;
+      console.log(`[서명 정리] EXIF 방향 ${orientation} 직접 적용: ${file.name}`);
+    }
+
+    const swapSides = orientation >= 5;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, swapSides ? height : width);
+    canvas.height = Math.max(1, swapSides ? width : height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context not available');
+
+    applyOrientationTransform(ctx, orientation, width, height);
+    ctx.drawImage(drawable, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    canvas.width = 1;
+    canvas.height = 1;
+
+    const blob = await imageDataToPngBlob(imageData);
+    return { blob, width: imageData.width, height: imageData.height };
+  } finally {
+    release();
+  }
+};
+
+/**
+ * 종이 배경 밝기 기준 자동 임계값
+ * - 서명 이미지는 대부분이 종이이므로 불투명 픽셀 밝기의 상위 분포(90%)를 종이 밝기로 본다.
+ * - 이미 투명 배경인 이미지는 null (정리 불필요)
+ */
+export const estimateBackgroundThreshold = (imageData: ImageData): number | null => {
+  const { data } = imageData;
+  const histogram = new Array<number>(256).fill(0);
+  let opaqueCount = 0;
+  let transparentCount = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) {
+      transparentCount++;
+      continue;
+    }
+    histogram[Math.round(getLuminance(data[i], data[i + 1], data[i + 2]))]++;
+    opaqueCount++;
+  }
+
+  const total = opaqueCount + transparentCount;
+  if (opaqueCount === 0 || transparentCount / total > TRANSPARENT_SOURCE_RATIO) return null;
+
+  let seen = 0;
+  let paperLevel = 255;
+  for (let level = 0; level < 256; level++) {
+    seen += histogram[level];
+    if (seen >= opaqueCount * 0.9) {
+      paperLevel = level;
+      break;
+    }
+  }
+
+  return clamp(Math.round((paperLevel - 24) / BACKGROUND_THRESHOLD_RANGE.step) * BACKGROUND_THRESHOLD_RANGE.step,
+    BACKGROUND_THRESHOLD_RANGE.min, BACKGROUND_THRESHOLD_RANGE.max);
+};
+
+/**
+ * 임계값보다 밝은 픽셀을 투명하게 바꾼다. (원본 ImageData는 수정하지 않음)
+ * - threshold 이상: 완전 투명 / threshold-EDGE_SOFTNESS 이하: 원래 불투명도 / 사이: 선형 보간
+ */
+export const applyBackgroundThreshold = (imageData: ImageData, threshold: number): ImageData => {
+  const output = new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height);
+  const { data } = output;
+  const opaqueBelow = threshold - EDGE_SOFTNESS;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = getLuminance(data[i], data[i + 1], data[i + 2]);
+    if (luminance <= opaqueBelow) continue;
+
+    const keep = luminance >= threshold ? 0 : (threshold - luminance) / EDGE_SOFTNESS;
+    data[i + 3] = Math.round(data[i + 3] * keep);
+  }
+
+  return output;
+};
+
+/**
+ * 서명 획이 있는 영역(경계 상자) 계산
+ * - 배경 제거 후에는 불투명 픽셀, 배경이 남아 있으면 inkCutoff보다 어두운 픽셀을 획으로 본다.
+ * @returns 획이 없으면 null
+ */
+export const findInkBounds = (
+  imageData: ImageData,
+  inkCutoff = 256
+): { left: number; top: number; right: number; bottom: number } | null => {
+  const { data, width, height } = imageData;
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] < INK_ALPHA_MIN || getLuminance(data[i], data[i + 1], data[i + 2]) >= inkCutoff) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+
+  return right < 0 ? null : { left, top, right, bottom };
+};
+
+/**
+ * 획 경계 상자 + 여백만 남기고 잘라낸다. (이미지 밖으로는 늘리지 않음)
+ */
+export const cropToInk = (imageData: ImageData, padding: number, inkCutoff?: number): ImageData => {
+  const bounds = findInkBounds(imageData, inkCutoff);
+  if (!bounds) return imageData;
+
+  const left = Math.max(0, bounds.left - padding);
+  const top = Math.max(0, bounds.top - padding);
+  const right = Math.min(imageData.width - 1, bounds.right + padding);
+  const bottom = Math.min(imageData.height - 1, bounds.bottom + padding);
+  const width = right - left + 1;
+  const height = bottom - top + 1;
+  if (width === imageData.width && height === imageData.height) return imageData;
+
+  const output = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    const rowStart = ((top + y) * imageData.width + left) * 4;
+    output.data.set(imageData.data.subarray(rowStart, rowStart + width * 4), y * width * 4);
+  }
+  return output;
+};
+
+export const isInkNormalizationActive = (ink: InkNormalization) => ink.color !== 'keep' || ink.contrast;
+
+/**
+ * 서명 키에 적용할 획 색/대비 설정 (개인별 설정이 있으면 전체 설정보다 우선)
+ */
+export const resolveInkNormalization = (
+  signatureKey: string,
+  personInk: Record<string, InkNormalization>,
+  defaultInk: InkNormalization
+): InkNormalization => personInk[signatureKey] || defaultInk;
+
+/**
+ * 획 색 통일 + 대비 정규화 (원본 ImageData는 수정하지 않음)
+ * - paperLevel: 종이로 보는 밝기. 대비 정규화 시 이 밝기가 흰색이 된다.
+ * - 색 통일은 픽셀의 진하기(어두운 정도)만 남기고 색상을 잉크 색으로 바꾼다. 연필/바랜 잉크도 같은 색이 된다.
+ */
+export const normalizeInk = (imageData: ImageData, ink: InkNormalization, paperLevel = 255): ImageData => {
+  if (!isInkNormalizationActive(ink)) return imageData;
+
+  const output = new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height);
+  const { data } = output;
+
+  let darkLevel = 0;
+  let range = 255;
+  if (ink.contrast) {
+    const histogram = new Array<number>(256).fill(0);
+    let inkCount = 0;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < INK_ALPHA_MIN) continue;
+      const luminance = getLuminance(data[i], data[i + 1], data[i + 2]);
+      if (luminance >= paperLevel) continue;
+      histogram[Math.round(luminance)]++;
+      inkCount++;
+    }
+    if (inkCount === 0) return imageData;
+
+    let seen = 0;
+    for (let level = 0; level < 256; level++) {
+      seen += histogram[level];
+      if (seen >= inkCount * INK_DARK_PERCENTILE) {
+        darkLevel = level;
+        break;
+      }
+    }
+    range = Math.max(1, paperLevel - darkLevel);
+  }
+
+  const stretch = (value: number) => clamp(((value - darkLevel) / range) * 255, 0, 255);
+  const target = ink.color === 'keep' ? null : INK_COLORS[ink.color];
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+
+    if (!target) {
+      data[i] = stretch(data[i]);
+      data[i + 1] = stretch(data[i + 1]);
+      data[i + 2] = stretch(data[i + 2]);
+      continue;
+    }
+
+    // 진하기 0(종이) ~ 1(가장 진한 획)을 흰색~잉크 색 사이로 칠한다.
+    const darkness = 1 - stretch(getLuminance(data[i], data[i + 1], data[i + 2])) / 255;
+    data[i] = 255 - darkness * (255 - target[0]);
+    data[i + 1] = 255 - darkness * (255 - target[1]);
+    data[i + 2] = 255 - darkness * (255 - target[2]);
+  }
+
+  return output;
+};
+
+export interface SignatureImageOptions {
+  /** 배경 제거 임계값: 숫자면 그 값, undefined면 자동 추정, null이면 배경 제거 안 함 */
+  threshold?: number | null;
+  /** 획 주변에 남길 여백(px): null이면 자르지 않음 */
+  trimPadding?: number | null;
+  /** 획 색/대비 정규화: 없으면 원래 색 유지 */
+  ink?: InkNormalization;
+}
+
+export interface ProcessedSignatureImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  threshold: number | null; // 실제 적용한 배경 제거 임계값 (미적용 null)
+}
+
+/**
+ * 업로드 서명 이미지 정리 파이프라인: 종이 배경 제거 -> 획 색/대비 정규화 -> 여백 자르기
+ * - 결과 크기(width/height)는 SignatureFile에 그대로 기록해 내보내기 비율 계산에 쓴다.
+ */
+export const processSignatureImage = async (
+  source: Blob,
+  options: SignatureImageOptions = {}
+): Promise<ProcessedSignatureImage> => {
+  let imageData = await loadImageData(source);
+
+  const threshold = options.threshold === undefined
+    ? estimateBackgroundThreshold(imageData)
+    : options.threshold;
+  if (threshold !== null) {
+    imageData = applyBackgroundThreshold(imageData, threshold);
+  }
+
+  if (options.ink && isInkNormalizationActive(options.ink)) {
+    const paperLevel = threshold ?? estimateBackgroundThreshold(imageData) ?? 255;
+    imageData = normalizeInk(imageData, options.ink, paperLevel);
+  }
+
+  if (options.trimPadding !== undefined && options.trimPadding !== null) {
+    // 배경을 지우지 않았다면 종이 밝기 추정값보다 어두운 부분만 획으로 본다.
+    const inkCutoff = threshold === null ? estimateBackgroundThreshold(imageData) ?? undefined : undefined;
+    imageData = cropToInk(imageData, options.trimPadding, inkCutoff);
+  }
+
+  const blob = await imageDataToPngBlob(imageData);
+  return { blob, width: imageData.width, height: imageData.height, threshold };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import {
+  DEFAULT_FILE_NAME_RULE,
+  SignatureFileNamePreset,
+  compileFileNameRule,
+  createSignatureImportSummary,
+  parseFileNameWithRule,
+  readSignatureZip,
+  resolveImportCandidates,
+} from './signatureImportService';
+
+const buildZip = async (paths: string[]): Promise<File> => {
+  const zip = new JSZip();
+  paths.forEach(path => zip.file(path, new Uint8Array([0x89, 0x50, 0x4e, 0x47])));
+  return new File([await zip.generateAsync({ type: 'arraybuffer' })], 'signatures.zip');
+};
+
+describe('readSignatureZip', () => {
+  it('사람별 폴더와 최상위 파일명을 모두 인식하고 공통 상위 폴더는 이름으로 보지 않는다', async () => {
+    const summary = createSignatureImportSummary('signatures.zip');
+    const items = await readSignatureZip(await buildZip([
+      'signatures/홍길동/1.png',
+      'signatures/김민수@20231234/서명.png',
+      'signatures/김철수_2.png',
+    ]), summary);
+
+    const owners = resolveImportCandidates(items, DEFAULT_FILE_NAME_RULE).map(candidate => [candidate.path, candidate.owner]);
+    expect(owners).toEqual([
+      ['signatures/홍길동/1.png', { name: '홍길동' }],
+      ['signatures/김민수@20231234/서명.png', { name: '김민수', qualifier: '20231234' }],
+      ['signatures/김철수_2.png', { name: '김철수', variant: '2' }],
+    ]);
+    expect(summary.rejected).toEqual([]);
+  });
+
+  it('이미지가 아닌 파일은 사유와 함께 거절하고 OS 부속 파일은 건너뛴다', async () => {
+    const summary = createSignatureImportSummary('signatures.zip');
+    const items = await readSignatureZip(await buildZip([
+      '홍길동/1.png',
+      '홍길동/메모.txt',
+      '__MACOSX/홍길동/._1.png',
+      '홍길동/.DS_Store',
+      'Thumbs.db',
+    ]), summary);
+
+    expect(items.map(item => item.path)).toEqual(['홍길동/1.png']);
+    expect(summary.rejected).toEqual([{ path: '홍길동/메모.txt', reason: '이미지 파일이 아님' }]);
+  });
+});
+
+describe('파일명 규칙', () => {
+  const parseWith = (preset: SignatureFileNamePreset, fileName: string, customPattern = '') => {
+    const compiled = compileFileNameRule({ preset, customPattern });
+    if ('error' in compiled) throw new Error(compiled.error);
+    return parseFileNameWithRule(fileName, compiled);
+  };
+
+  it.each([
+    ['underscore', '홍길동_1.png', { name: '홍길동', variant: '1' }],
+    ['underscore', '홍길동.png', { name: '홍길동' }], // 기존 규칙과 같이 번호가 없으면 파일명 전체
+    ['underscore', '김민수@20231234_2.jpg', { name: '김민수', qualifier: '20231234', variant: '2' }],
+    ['hyphen', '홍길동 - 2.png', { name: '홍길동', variant: '2' }],
+    ['parenthesis', '홍길동(3).png', { name: '홍길동', variant: '3' }],
+    ['numberPrefix', '04_홍길동.png', { name: '홍길동', variant: '04' }],
+    ['nameOnly', '홍_길동.png', { name: '홍길동' }], // 밑줄도 번호 구분자가 아니라 이름의 일부 (정규화 후 비교)
+  ] as [SignatureFileNamePreset, string, object][])('%s: %s', (preset, fileName, expected) => {
+    expect(parseWith(preset, fileName)).toEqual(expected);
+  });
+
+  it('프리셋 패턴과 맞지 않으면 이름을 인식하지 않는다', () => {
+    expect(parseWith('hyphen', '홍길동_1.png')).toBeNull();
+    expect(parseWith('parenthesis', '홍길동.png')).toBeNull();
+  });
+
+  it('사용자 정규식은 name 그룹이 있어야 하고 문법 오류를 알려준다', () => {
+    expect(compileFileNameRule({ preset: 'custom', customPattern: '' })).toEqual({ error: '정규식을 입력해주세요.' });
+    expect(compileFileNameRule({ preset: 'custom', customPattern: '(' })).toEqual({ error: '정규식 문법이 올바르지 않습니다.' });
+    expect(compileFileNameRule({ preset: 'custom', customPattern: '^(.+)$' })).toEqual({ error: '이름 그룹 (?<name>...)이 필요합니다.' });
+    expect(parseWith('custom', 'A12-홍길동.png', '^(?<variant>[A-Z]\\d+)-(?<name>.+)$')).toEqual({ name: '홍길동', variant: 'A12' });
+  });
+
+  it('사람별 폴더 안의 파일은 규칙과 관계없이 폴더명이 이름이다', async () => {
+    const items = await readSignatureZip(await buildZip(['홍길동/2_서명.png', '김철수-1.png']), createSignatureImportSummary('z'));
+    const owners = resolveImportCandidates(items, { preset: 'hyphen', customPattern: '' }).map(candidate => candidate.owner);
+    expect(owners).toEqual([{ name: '홍길동' }, { name: '김철수', variant: '1' }]);
+  });
+});
@@ -0,0 +1,287 @@
+import JSZip from 'jszip';
+import { parseSignatureOwnerName } from './excelService';
+
+/**
+ * 서명 이미지 일괄 가져오기 (ZIP / 폴더)
+ * - 'name/variant.png' 사람별 폴더와 파일명 규칙('name_n.png' 등, 사용자 정규식 가능)을 모두 인식한다.
+ * - 선택한 폴더나 ZIP 안의 공통 상위 폴더(예: 'signatures/')는 사람 이름으로 보지 않는다.
+ */
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+};
+
+/** OS가 만드는 부속 파일은 거절 목록에도 올리지 않고 건너뛴다. */
+const IGNORED_FILE_NAMES = new Set(['thumbs.db', 'desktop.ini']);
+
+export type SignatureFileNamePreset =
+  | 'underscore'
+  | 'hyphen'
+  | 'parenthesis'
+  | 'numberPrefix'
+  | 'nameOnly'
+  | 'custom';
+
+export interface SignatureFileNameRule {
+  preset: SignatureFileNamePreset;
+  customPattern: string; // preset === 'custom'일 때 사용 (name 그룹 필수, variant 그룹 선택)
+}
+
+export const DEFAULT_FILE_NAME_RULE: SignatureFileNameRule = { preset: 'underscore', customPattern: '' };
+
+const FILE_NAME_RULE_STORAGE_KEY = 'safetysignpro.fileNameRule.v1';
+
+/**
+ * 마지막으로 사용한 파일명 규칙 (브라우저 localStorage)
+ */
+export const loadFileNameRule = (): SignatureFileNameRule => {
+  try {
+    const raw = localStorage.getItem(FILE_NAME_RULE_STORAGE_KEY);
+    if (!raw) return DEFAULT_FILE_NAME_RULE;
+    const parsed = JSON.parse(raw);
+    const preset = parsed?.preset;
+    if (preset !== 'custom' && !(preset in FILE_NAME_PRESETS)) return DEFAULT_FILE_NAME_RULE;
+    return { preset, customPattern: typeof parsed.customPattern === 'string' ? parsed.customPattern : '' };
+  } catch (err) {
+    console.warn('[서명 가져오기] 저장된 파일명 규칙을 읽지 못했습니다.', err);
+    return DEFAULT_FILE_NAME_RULE;
+  }
+};
+
+export const saveFileNameRule = (rule: SignatureFileNameRule) => {
+  try {
+    localStorage.setItem(FILE_NAME_RULE_STORAGE_KEY, JSON.stringify(rule));
+  } catch (err) {
+    console.warn('[서명 가져오기] 파일명 규칙 저장 실패', err);
+  }
+};
+
+/**
+ * 파일명 규칙 프리셋 (확장자를 뺀 파일명에 적용)
+ * - wholeNameFallback: 패턴과 맞지 않으면 파일명 전체를 이름으로 쓴다. (기존 '_' 규칙 호환)
+ */
+export const FILE_NAME_PRESETS: Record<Exclude<SignatureFileNamePreset, 'custom'>, {
+  label: string;
+  example: string;
+  pattern: RegExp;
+  wholeNameFallback: boolean;
+}> = {
+  underscore: { label: '이름_번호', example: '홍길동_1.png', pattern: /^(?<name>.+)_(?<variant>[^_]*)$/, wholeNameFallback: true },
+  hyphen: { label: '이름-번호', example: '홍길동-2.png', pattern: /^(?<name>.+?)\s*-\s*(?<variant>\d+)$/, wholeNameFallback: false },
+  parenthesis: { label: '이름(번호)', example: '홍길동(2).png', pattern: /^(?<name>.+?)\s*\((?<variant>\d+)\)$/, wholeNameFallback: false },
+  numberPrefix: { label: '번호_이름', example: '2_홍길동.png', pattern: /^(?<variant>\d+)[_-](?<name>.+)$/, wholeNameFallback: false },
+  nameOnly: { label: '파일명 전체가 이름', example: '홍_길동.png', pattern: /^(?<name>.+)$/, wholeNameFallback: false },
+};
+
+/**
+ * 규칙을 정규식으로 변환
+ * - 사용자 정규식이 잘못되었거나 name 그룹이 없으면 error를 돌려준다.
+ */
+export const compileFileNameRule = (
+  rule: SignatureFileNameRule
+): { pattern: RegExp; wholeNameFallback: boolean } | { error: string } => {
+  if (rule.preset !== 'custom') {
+    const preset = FILE_NAME_PRESETS[rule.preset];
+    return { pattern: preset.pattern, wholeNameFallback: preset.wholeNameFallback };
+  }
+
+  if (!rule.customPattern.trim()) return { error: '정규식을 입력해주세요.' };
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(rule.customPattern);
+  } catch {
+    return { error: '정규식 문법이 올바르지 않습니다.' };
+  }
+  if (!rule.customPattern.includes('(?<name>')) {
+    return { error: '이름 그룹 (?<name>...)이 필요합니다.' };
+  }
+  return { pattern, wholeNameFallback: false };
+};
+
+export interface ParsedSignatureFileName {
+  name: string;
+  qualifier?: string;
+  variant?: string; // 파일명에서 읽은 번호 등 (표시용)
+}
+
+/**
+ * 규칙에 따라 파일명에서 이름/구분자/번호 추출
+ * - 이름 부분의 '@'는 기존처럼 동명이인 구분자로 처리한다.
+ */
+export const parseFileNameWithRule = (
+  fileName: string,
+  compiled: { pattern: RegExp; wholeNameFallback: boolean }
+): ParsedSignatureFileName | null => {
+  const dotIdx = fileName.lastIndexOf('.');
+  const baseName = (dotIdx > 0 ? fileName.substring(0, dotIdx) : fileName).trim();
+  const match = compiled.pattern.exec(baseName);
+
+  const rawName = match ? match.groups?.name : compiled.wholeNameFallback ? baseName : undefined;
+  if (!rawName) return null;
+
+  const owner = parseSignatureOwnerName(rawName.trim());
+  if (!owner) return null;
+  const variant = match?.groups?.variant;
+  return variant ? { ...owner, variant } : owner;
+};
+
+export interface SignatureImportItem {
+  file: File;
+  path: string; // ZIP/폴더 안의 원래 경로 (요약 표시용)
+  segments: string[]; // 공통 상위 폴더를 뺀 상대 경로
+}
+
+export interface SignatureImportCandidate {
+  file: File;
+  path: string;
+  owner: ParsedSignatureFileName | null; // null이면 이름 인식 실패
+}
+
+export interface SignatureImportSummary {
+  source: string; // ZIP 파일명 또는 폴더명
+  accepted: string[];
+  flagged: string[]; // 추가했지만 품질 경고가 있는 항목
+  duplicates: string[];
+  rejected: { path: string; reason: string }[];
+}
+
+export const createSignatureImportSummary = (source: string): SignatureImportSummary => ({
+  source,
+  accepted: [],
+  flagged: [],
+  duplicates: [],
+  rejected: [],
+});
+
+const getExtension = (fileName: string) => {
+  const dotIdx = fileName.lastIndexOf('.');
+  return dotIdx > 0 ? fileName.substring(dotIdx + 1).toLowerCase() : '';
+};
+
+const isIgnoredPath = (segments: string[]) =>
+  segments.some(segment => segment === '__MACOSX' || segment.startsWith('.')) ||
+  IGNORED_FILE_NAMES.has(segments[segments.length - 1].toLowerCase());
+
+/**
+ * 모든 경로가 같은 최상위 폴더 아래에 있으면 그 폴더를 떼어낸다.
+ */
+const stripCommonRoot = (paths: string[][]): string[][] => {
+  const root = paths[0]?.[0];
+  const shared = paths.length > 0 && paths.every(segments => segments.length > 1 && segments[0] === root);
+  return shared ? paths.map(segments => segments.slice(1)) : paths;
+};
+
+/**
+ * 상대 경로에서 서명 주인 추출
+ * - 폴더 안 파일: 바로 위 폴더명이 이름 ('홍길동/1.png', '김민수@20231234/서명.png')
+ * - 최상위 파일: 파일명 규칙 ('홍길동_1.png', '홍길동(2).png' 등)
+ */
+export const parseSignatureImportPath = (
+  segments: string[],
+  compiled: { pattern: RegExp; wholeNameFallback: boolean }
+): ParsedSignatureFileName | null => {
+  if (segments.length >= 2) {
+    return parseSignatureOwnerName(segments[segments.length - 2]);
+  }
+  return parseFileNameWithRule(segments[0], compiled);
+};
+
+/**
+ * (상대 경로, 파일) 목록을 가져오기 항목으로 정리
+ * - 이미지가 아닌 파일은 거절 목록에 사유와 함께 남긴다.
+ */
+const toImportItems = (
+  items: { path: string; file: File }[],
+  summary: SignatureImportSummary
+): SignatureImportItem[] => {
+  const visible = items
+    .map(item => ({ ...item, segments: item.path.split('/').filter(Boolean) }))
+    .filter(item => item.segments.length > 0 && !isIgnoredPath(item.segments));
+  const relativeSegments = stripCommonRoot(visible.map(item => item.segments));
+
+  const importItems: SignatureImportItem[] = [];
+  visible.forEach((item, index) => {
+    if (!item.file.type.startsWith('image/') && !IMAGE_MIME_TYPES[getExtension(item.file.name)]) {
+      summary.rejected.push({ path: item.path, reason: '이미지 파일이 아님' });
+      return;
+    }
+    importItems.push({ file: item.file, path: item.path, segments: relativeSegments[index] });
+  });
+
+  return importItems;
+};
+
+/**
+ * 파일명 규칙을 적용해 가져오기 후보로 변환
+ */
+export const resolveImportCandidates = (
+  items: SignatureImportItem[],
+  rule: SignatureFileNameRule
+): SignatureImportCandidate[] => {
+  const compiled = compileFileNameRule(rule);
+  return items.map(item => ({
+    file: item.file,
+    path: item.path,
+    owner: 'error' in compiled ? null : parseSignatureImportPath(item.segments, compiled),
+  }));
+};
+
+/**
+ * ZIP 파일에서 서명 이미지 항목 추출
+ */
+export const readSignatureZip = async (
+  zipFile: File,
+  summary: SignatureImportSummary
+): Promise<SignatureImportItem[]> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await zipFile.arrayBuffer());
+  } catch {
+    throw new Error('ZIP 파일을 열 수 없습니다. 압축 파일이 손상되지 않았는지 확인해주세요.');
+  }
+
+  const items: { path: string; file: File }[] = [];
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir) continue;
+    const fileName = entry.name.split('/').pop() || entry.name;
+    const mimeType = IMAGE_MIME_TYPES[getExtension(fileName)] || 'application/octet-stream';
+    // 이미지가 아닌 항목은 압축을 풀지 않고 이름만 넘겨 거절 사유를 남긴다.
+    const data = mimeType === 'application/octet-stream' ? new ArrayBuffer(0) : await entry.async('arraybuffer');
+    items.push({ path: entry.name, file: new File([data], fileName, { type: mimeType }) });
+  }
+
+  console.log(`[서명 가져오기] ZIP ${zipFile.name}: 항목 ${items.length}개`);
+  return toImportItems(items, summary);
+};
+
+/**
+ * 폴더 선택(webkitdirectory) 결과에서 서명 이미지 항목 추출
+ */
+export const readSignatureDirectory = (
+  files: FileList,
+  summary: SignatureImportSummary
+): SignatureImportItem[] => {
+  const items = Array.from(files).map(file => ({
+    path: file.webkitRelativePath || file.name,
+    file,
+  }));
+  return toImportItems(items, summary);
+};
+
+/**
+ * 일반 파일 선택 결과 (파일명 규칙만 사용)
+ */
+export const readSignatureFiles = (
+  files: FileList,
+  summary: SignatureImportSummary
+): SignatureImportItem[] => {
+  const items = Array.from(files).map(file => ({ path: file.name, file }));
+  return toImportItems(items, summary);
+};
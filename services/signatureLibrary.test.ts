@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { SignatureLibraryEntry, filterLibraryEntries, libraryEntryToSignatureFile } from './signatureLibrary';
+
+const entry = (name: string, team: string, site: string, qualifier?: string): SignatureLibraryEntry => ({
+  id: `${qualifier ? `${name}@${qualifier}` : name}/${name}_1.png`,
+  key: qualifier ? `${name}@${qualifier}` : name,
+  name,
+  ...(qualifier ? { qualifier } : {}),
+  variant: `${name}_1.png`,
+  team,
+  site,
+  width: 200,
+  height: 80,
+  blob: new Blob([]),
+  savedAt: '2024-03-04T00:00:00.000Z',
+});
+
+const entries = [
+  entry('홍길동', '안전팀', '평택 1공구'),
+  entry('김민수', '전기팀', '평택 1공구', '20231234'),
+  entry('김민수', '전기팀', '화성 2공구', '20239999'),
+];
+
+describe('filterLibraryEntries', () => {
+  it('검색어는 공백을 무시하고 이름·사번·팀·현장에서 찾는다', () => {
+    const names = (query: string) => filterLibraryEntries(entries, { query, team: '', site: '' }).map(item => item.key);
+    expect(names('김 민수')).toEqual(['김민수@20231234', '김민수@20239999']);
+    expect(names('9999')).toEqual(['김민수@20239999']);
+    expect(names('평택1공구')).toEqual(['홍길동', '김민수@20231234']);
+    expect(names('')).toHaveLength(3);
+  });
+
+  it('팀/현장 필터는 정확히 일치하는 항목만 남긴다', () => {
+    expect(filterLibraryEntries(entries, { query: '', team: '전기팀', site: '화성 2공구' }).map(item => item.key)).toEqual(['김민수@20239999']);
+    expect(filterLibraryEntries(entries, { query: '홍길동', team: '전기팀', site: '' })).toEqual([]);
+  });
+});
+
+describe('libraryEntryToSignatureFile', () => {
+  it('보관함 항목을 세션 서명으로 바꾸고 구분자를 유지한다', () => {
+    expect(libraryEntryToSignatureFile(entries[1], () => 'blob:preview')).toEqual({
+      name: '김민수',
+      qualifier: '20231234',
+      variant: '김민수_1.png',
+      previewUrl: 'blob:preview',
+      width: 200,
+      height: 80,
+    });
+  });
+});
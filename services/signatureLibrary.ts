@@ -0,0 +1,203 @@
+import { SignatureFile } from '../types';
+import { getSignatureKey, parseSignatureOwnerName } from './excelService';
+
+/**
+ * 서명 보관함 (브라우저 IndexedDB)
+ * - 매일 같은 작업자 서명을 다시 올리지 않도록 정리된 서명 이미지와 이름/팀/현장 정보를 보관한다.
+ * - 불러올 때마다 새 Object URL을 만들어 현재 세션의 SignatureFile로 넣는다. (URL 해제는 호출부에서 추적)
+ */
+
+const DB_NAME = 'safetysignpro.signatureLibrary';
+const DB_VERSION = 1;
+const STORE_NAME = 'signatures';
+
+export interface SignatureLibraryEntry {
+  id: string; // `${서명 키}/${variant}` (같은 서명을 다시 저장하면 덮어씀)
+  key: string; // signatures Map 키
+  name: string;
+  qualifier?: string;
+  variant: string;
+  team: string;
+  site: string;
+  width: number;
+  height: number;
+  blob: Blob;
+  savedAt: string; // ISO timestamp
+}
+
+export interface SignatureLibraryMeta {
+  team: string;
+  site: string;
+}
+
+export interface SignatureLibraryEdit extends SignatureLibraryMeta {
+  name: string;
+  qualifier: string;
+}
+
+const getEntryId = (key: string, variant: string) => `${key}/${variant}`;
+
+const openLibraryDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  if (!('indexedDB' in window)) {
+    reject(new Error('이 브라우저는 서명 보관함(IndexedDB)을 지원하지 않습니다.'));
+    return;
+  }
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error ?? new Error('서명 보관함을 열 수 없습니다.'));
+});
+
+/**
+ * 저장소 트랜잭션 실행
+ * - IndexedDB 트랜잭션은 await 사이에 자동 종료되므로 work 안에서는 동기적으로 요청만 건다.
+ * - 완료(oncomplete) 후 work가 반환한 요청 결과를 돌려준다.
+ */
+const withStore = async <T = undefined>(
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openLibraryDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = work(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+      transaction.onerror = () => reject(transaction.error ?? new Error('서명 보관함 작업 실패'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('서명 보관함 작업이 취소되었습니다.'));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * 보관함의 모든 서명 (이름 순)
+ */
+export const listLibraryEntries = async (): Promise<SignatureLibraryEntry[]> => {
+  const entries = await withStore<SignatureLibraryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => a.key.localeCompare(b.key, 'ko') || a.variant.localeCompare(b.variant, 'ko'));
+};
+
+/**
+ * 현재 세션의 서명을 보관함에 저장
+ * - 이미 있는 서명은 이미지를 새로 덮어쓰고, 팀/현장을 비워 두면 기존 값을 유지한다.
+ */
+export const saveSignaturesToLibrary = async (
+  signatures: Map<string, SignatureFile[]>,
+  meta: SignatureLibraryMeta
+): Promise<{ added: number; updated: number }> => {
+  const existing = new Map((await listLibraryEntries()).map(entry => [entry.id, entry]));
+  const savedAt = new Date().toISOString();
+  const entries: SignatureLibraryEntry[] = [];
+
+  // Object URL에서 이미지 바이트를 먼저 모두 읽은 뒤 한 트랜잭션으로 저장한다.
+  for (const [key, list] of signatures) {
+    for (const sig of list) {
+      const response = await fetch(sig.previewUrl);
+      if (!response.ok) {
+        throw new Error(`서명 이미지를 읽을 수 없습니다: ${sig.variant}`);
+      }
+      const id = getEntryId(key, sig.variant);
+      const previous = existing.get(id);
+      entries.push({
+        id,
+        key,
+        name: sig.name,
+        ...(sig.qualifier ? { qualifier: sig.qualifier } : {}),
+        variant: sig.variant,
+        team: meta.team.trim() || previous?.team || '',
+        site: meta.site.trim() || previous?.site || '',
+        width: sig.width,
+        height: sig.height,
+        blob: await response.blob(),
+        savedAt,
+      });
+    }
+  }
+
+  await withStore('readwrite', store => {
+    entries.forEach(entry => store.put(entry));
+  });
+
+  const updated = entries.filter(entry => existing.has(entry.id)).length;
+  console.log(`[서명 보관함] 저장 ${entries.length}개 (새로 ${entries.length - updated}, 갱신 ${updated})`);
+  return { added: entries.length - updated, updated };
+};
+
+/**
+ * 이름/구분자/팀/현장 수정
+ * - 이름이 바뀌면 서명 키와 id도 바뀌므로 기존 항목을 지우고 새로 넣는다.
+ */
+export const updateLibraryEntry = async (
+  entry: SignatureLibraryEntry,
+  edit: SignatureLibraryEdit
+): Promise<SignatureLibraryEntry> => {
+  const owner = parseSignatureOwnerName(edit.qualifier.trim() ? `${edit.name}@${edit.qualifier}` : edit.name);
+  if (!owner) {
+    throw new Error('이름을 입력해주세요.');
+  }
+
+  const key = getSignatureKey(owner.name, owner.qualifier);
+  const { qualifier: _qualifier, ...rest } = entry;
+  const next: SignatureLibraryEntry = {
+    ...rest,
+    id: getEntryId(key, entry.variant),
+    key,
+    name: owner.name,
+    ...(owner.qualifier ? { qualifier: owner.qualifier } : {}),
+    team: edit.team.trim(),
+    site: edit.site.trim(),
+  };
+
+  await withStore('readwrite', store => {
+    if (next.id !== entry.id) store.delete(entry.id);
+    store.put(next);
+  });
+  return next;
+};
+
+export const deleteLibraryEntries = async (ids: string[]): Promise<void> => {
+  await withStore('readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+};
+
+/**
+ * 검색어 + 팀/현장 필터 (빈 값은 전체)
+ */
+export const filterLibraryEntries = (
+  entries: SignatureLibraryEntry[],
+  filter: { query: string; team: string; site: string }
+): SignatureLibraryEntry[] => {
+  const query = filter.query.replace(/\s+/g, '').toLowerCase();
+  return entries.filter(entry => {
+    if (filter.team && entry.team !== filter.team) return false;
+    if (filter.site && entry.site !== filter.site) return false;
+    if (!query) return true;
+    return [entry.name, entry.qualifier, entry.team, entry.site, entry.variant]
+      .some(value => (value || '').replace(/\s+/g, '').toLowerCase().includes(query));
+  });
+};
+
+/**
+ * 보관함 항목을 현재 세션 서명으로 변환
+ * @param createPreviewUrl 이미지 Blob -> 미리보기 URL (호출부에서 해제 추적)
+ */
+export const libraryEntryToSignatureFile = (
+  entry: SignatureLibraryEntry,
+  createPreviewUrl: (blob: Blob) => string
+): SignatureFile => ({
+  name: entry.name,
+  variant: entry.variant,
+  previewUrl: createPreviewUrl(entry.blob),
+  width: entry.width,
+  height: entry.height,
+  ...(entry.qualifier ? { qualifier: entry.qualifier } : {}),
+});
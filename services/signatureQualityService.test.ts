@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSignatureQuality } from './signatureQualityService';
+
+type Rect = [left: number, top: number, width: number, height: number];
+
+/** 단색 종이 위에 검은 사각형 획을 그린 픽셀 데이터 (canvas 없이 ImageData 모양만 맞춤) */
+const buildImage = (strokes: Rect[], paper: [number, number, number] = [255, 255, 255], width = 300, height = 120) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([...paper, 255], i * 4);
+  }
+  for (const [left, top, w, h] of strokes) {
+    for (let y = top; y < top + h; y++) {
+      for (let x = left; x < left + w; x++) {
+        data.set([20, 20, 20, 255], (y * width + x) * 4);
+      }
+    }
+  }
+  return { data, width, height, colorSpace: 'srgb' } as ImageData;
+};
+
+describe('analyzeSignatureQuality', () => {
+  it('흰 종이 위 충분한 크기의 획은 경고가 없다', () => {
+    expect(analyzeSignatureQuality(buildImage([[60, 30, 160, 50]]))).toEqual([]);
+  });
+
+  it('획이 거의 없거나 작으면 경고한다', () => {
+    expect(analyzeSignatureQuality(buildImage([]))).toContain('mostlyEmpty');
+    expect(analyzeSignatureQuality(buildImage([[100, 40, 30, 12]]))).toContain('tooSmall');
+  });
+
+  it('멀리 떨어진 획 덩어리와 색이 있는 종이를 알려준다', () => {
+    expect(analyzeSignatureQuality(buildImage([[10, 30, 60, 50], [230, 30, 60, 50]]))).toContain('multipleBlobs');
+    expect(analyzeSignatureQuality(buildImage([[60, 30, 160, 50]], [235, 215, 170]))).toContain('tintedBackground');
+  });
+});
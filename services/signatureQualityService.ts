@@ -0,0 +1,212 @@
+import { SignatureQualityIssue } from '../types';
+import {
+  EDGE_SOFTNESS,
+  INK_ALPHA_MIN,
+  estimateBackgroundThreshold,
+  getLuminance,
+  loadImageData,
+} from './signatureImageService';
+
+/**
+ * 서명 이미지 품질 점검 (가져올 때 1회)
+ * - 공문서에 찍히기 전에 잘못된 스캔을 알아볼 수 있도록 경고만 표시하고 가져오기는 막지 않는다.
+ * - 배경 제거/여백 자르기 전의 바로 선 원본 이미지를 기준으로 판단한다.
+ */
+
+export const SIGNATURE_QUALITY_LABELS: Record<SignatureQualityIssue, { label: string; detail: string }> = {
+  tooSmall: { label: '작음', detail: '획이 작아 인쇄 시 흐리거나 깨질 수 있습니다.' },
+  mostlyEmpty: { label: '빈 이미지', detail: '획이 거의 없습니다. 빈 스캔이나 잘못된 파일인지 확인하세요.' },
+  noisy: { label: '잡티 많음', detail: '사진 잡티(노이즈)가 많아 배경 제거 후 점이 남을 수 있습니다.' },
+  multipleBlobs: { label: '획 분리', detail: '서로 떨어진 획 덩어리가 여러 개입니다. 다른 글씨나 얼룩이 함께 찍혔는지 확인하세요.' },
+  tintedBackground: { label: '배경색', detail: '배경이 흰색이 아닙니다. (그림자, 색지, 누런 종이)' },
+};
+
+const QUALITY_LIMITS = {
+  minInkWidth: 60, // px
+  minInkHeight: 30, // px
+  minInkPixels: 150,
+  minInkRatio: 0.001, // 이미지 대비 획 픽셀 비율
+  maxSpeckleRatio: 0.08, // 이웃 획이 없는 외딴 점 / 전체 획
+  maxPaperDeviation: 10, // 종이 밝기 표준편차
+  minPaperLevel: 200, // 종이 평균 밝기
+  maxPaperTint: 24, // 종이 평균 채도 (max-min RGB)
+  blobGapRatio: 0.15, // 이보다 멀리 떨어진 덩어리는 별개로 본다 (긴 변 대비)
+  blobMassRatio: 0.1, // 별개 덩어리로 인정하는 최소 획 비율
+};
+
+/** 덩어리 분석용 축소 크기 (긴 변) */
+const ANALYSIS_MAX_SIDE = 400;
+
+/**
+ * 획 마스크를 축소해 서로 떨어진 덩어리가 여러 개인지 판단
+ * - 가까운 연결 요소는 한 덩어리로 묶는다. (한글 이름의 글자 사이 간격은 허용)
+ */
+const hasSeparateInkClusters = (mask: Uint8Array, width: number, height: number, inkCount: number): boolean => {
+  const factor = Math.max(1, Math.ceil(Math.max(width, height) / ANALYSIS_MAX_SIDE));
+  const w = Math.ceil(width / factor);
+  const h = Math.ceil(height / factor);
+  const small = new Uint8Array(w * h);
+  const mass = new Float64Array(w * h);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      const index = Math.floor(y / factor) * w + Math.floor(x / factor);
+      small[index] = 1;
+      mass[index]++;
+    }
+  }
+
+  // 8방향 연결 요소 (경계 상자 + 원래 획 픽셀 수)
+  const components: { left: number; top: number; right: number; bottom: number; mass: number }[] = [];
+  const visited = new Uint8Array(w * h);
+  const stack: number[] = [];
+  for (let start = 0; start < small.length; start++) {
+    if (!small[start] || visited[start]) continue;
+    const component = { left: w, top: h, right: -1, bottom: -1, mass: 0 };
+    visited[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % w;
+      const y = (index - x) / w;
+      component.left = Math.min(component.left, x);
+      component.right = Math.max(component.right, x);
+      component.top = Math.min(component.top, y);
+      component.bottom = Math.max(component.bottom, y);
+      component.mass += mass[index];
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= w || ny >= h) continue;
+          const next = ny * w + nx;
+          if (small[next] && !visited[next]) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+    components.push(component);
+  }
+
+  // 경계 상자 사이 간격이 gap 이하인 요소끼리 묶기 (union-find)
+  const gap = Math.max(2, Math.ceil(Math.max(w, h) * QUALITY_LIMITS.blobGapRatio));
+  const parent = components.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  for (let i = 0; i < components.length; i++) {
+    for (let j = i + 1; j < components.length; j++) {
+      const a = components[i];
+      const b = components[j];
+      const dx = Math.max(0, Math.max(a.left, b.left) - Math.min(a.right, b.right));
+      const dy = Math.max(0, Math.max(a.top, b.top) - Math.min(a.bottom, b.bottom));
+      if (Math.max(dx, dy) <= gap) parent[find(i)] = find(j);
+    }
+  }
+
+  const clusterMass = new Map<number, number>();
+  components.forEach((component, index) => {
+    const root = find(index);
+    clusterMass.set(root, (clusterMass.get(root) || 0) + component.mass);
+  });
+  const significant = Array.from(clusterMass.values())
+    .filter(value => value >= inkCount * QUALITY_LIMITS.blobMassRatio);
+  return significant.length >= 2;
+};
+
+/**
+ * 픽셀 데이터 품질 점검
+ */
+export const analyzeSignatureQuality = (imageData: ImageData): SignatureQualityIssue[] => {
+  const { data, width, height } = imageData;
+  const threshold = estimateBackgroundThreshold(imageData); // null: 이미 투명 배경
+  const inkLevel = threshold === null ? 256 : threshold - EDGE_SOFTNESS;
+
+  const mask = new Uint8Array(width * height);
+  let inkCount = 0;
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+  let paperCount = 0;
+  let paperSum = 0;
+  let paperSquareSum = 0;
+  let paperTintSum = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] < INK_ALPHA_MIN) continue;
+      const luminance = getLuminance(data[i], data[i + 1], data[i + 2]);
+
+      if (luminance < inkLevel) {
+        mask[y * width + x] = 1;
+        inkCount++;
+        if (x < left) left = x;
+        if (x > right) right = x;
+        if (y < top) top = y;
+        if (y > bottom) bottom = y;
+      } else if (threshold !== null) {
+        paperCount++;
+        paperSum += luminance;
+        paperSquareSum += luminance * luminance;
+        paperTintSum += Math.max(data[i], data[i + 1], data[i + 2]) - Math.min(data[i], data[i + 1], data[i + 2]);
+      }
+    }
+  }
+
+  const issues: SignatureQualityIssue[] = [];
+
+  if (inkCount < QUALITY_LIMITS.minInkPixels || inkCount / (width * height) < QUALITY_LIMITS.minInkRatio) {
+    issues.push('mostlyEmpty');
+  } else {
+    if (right - left + 1 < QUALITY_LIMITS.minInkWidth || bottom - top + 1 < QUALITY_LIMITS.minInkHeight) {
+      issues.push('tooSmall');
+    }
+
+    let isolated = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (!mask[y * width + x]) continue;
+        let hasNeighbour = false;
+        for (let dy = -1; dy <= 1 && !hasNeighbour; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if ((dx || dy) && nx >= 0 && ny >= 0 && nx < width && ny < height && mask[ny * width + nx]) {
+              hasNeighbour = true;
+              break;
+            }
+          }
+        }
+        if (!hasNeighbour) isolated++;
+      }
+    }
+
+    const paperMean = paperCount > 0 ? paperSum / paperCount : 255;
+    const paperDeviation = paperCount > 0 ? Math.sqrt(Math.max(0, paperSquareSum / paperCount - paperMean * paperMean)) : 0;
+    if (isolated / inkCount > QUALITY_LIMITS.maxSpeckleRatio || paperDeviation > QUALITY_LIMITS.maxPaperDeviation) {
+      issues.push('noisy');
+    }
+
+    if (hasSeparateInkClusters(mask, width, height, inkCount)) {
+      issues.push('multipleBlobs');
+    }
+  }
+
+  if (threshold !== null && paperCount > 0) {
+    const paperMean = paperSum / paperCount;
+    if (paperMean < QUALITY_LIMITS.minPaperLevel || paperTintSum / paperCount > QUALITY_LIMITS.maxPaperTint) {
+      issues.push('tintedBackground');
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * 이미지 Blob 품질 점검
+ */
+export const checkSignatureQuality = async (source: Blob): Promise<SignatureQualityIssue[]> => {
+  return analyzeSignatureQuality(await loadImageData(source));
+};
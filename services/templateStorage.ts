@@ -0,0 +1,154 @@
+import { SheetData, SheetColumnMapping, PlaceholderRules, RowExclusionRules } from '../types';
+import { detectNameHeader } from './excelService';
+
+/**
+ * 양식(템플릿)별 매칭 설정 저장소
+ * - 같은 양식을 반복 업로드할 때 수동 지정한 헤더/성명 열, placeholder 규칙을
+ *   다시 설정하지 않도록 브라우저 localStorage에 보관한다.
+ * - 양식 식별은 파일명이 아닌 "시트 위치 + 헤더 행 텍스트"로 판단하여
+ *   날짜/현장별로 파일명이 달라도 같은 양식이면 재사용된다.
+ */
+
+const STORAGE_KEY = 'safetysignpro.templateSettings.v1';
+const MAX_SAVED_TEMPLATES = 30;
+
+export interface SavedSheetSettings {
+  sheetIndex: number;
+  sheetName: string;
+  headerRow: number; // 양식 식별에 사용한 헤더 행 (수동 지정 또는 자동 탐지)
+  headerSignature: string; // 헤더 행 셀 텍스트를 이어 붙인 식별 문자열
+  mapping?: SheetColumnMapping; // 수동 지정한 경우에만 존재
+}
+
+export interface TemplateSettings {
+  savedAt: string; // ISO timestamp
+  sheets: SavedSheetSettings[];
+  placeholderRules?: PlaceholderRules;
+  rowExclusionRules?: RowExclusionRules;
+}
+
+const getTargetSheets = (sheetData: SheetData): SheetData[] => {
+  return (sheetData.sheets && sheetData.sheets.length > 0) ? sheetData.sheets : [sheetData];
+};
+
+/**
+ * 헤더 행 텍스트 식별 문자열 생성 (공백 차이는 무시)
+ */
+const getHeaderSignature = (sheet: SheetData, headerRow: number): string => {
+  const row = sheet.rows.find(r => r.index === headerRow);
+  if (!row) return '';
+
+  return row.cells
+    .map(cell => (cell.value ?? '').toString().replace(/[\s\u00A0\uFEFF]+/g, ''))
+    .filter(Boolean)
+    .join('|');
+};
+
+const readAllTemplateSettings = (): TemplateSettings[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.warn('[템플릿 설정] 저장된 설정을 읽지 못했습니다.', err);
+    return [];
+  }
+};
+
+const writeAllTemplateSettings = (entries: TemplateSettings[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.slice(0, MAX_SAVED_TEMPLATES)));
+  } catch (err) {
+    console.warn('[템플릿 설정] 설정 저장 실패', err);
+    throw new Error('브라우저 저장소에 설정을 저장할 수 없습니다.');
+  }
+};
+
+const isSameTemplate = (a: SavedSheetSettings[], b: SavedSheetSettings[]) => {
+  return a.length === b.length && a.every(entry => b.some(other =>
+    other.sheetIndex === entry.sheetIndex && other.headerSignature === entry.headerSignature
+  ));
+};
+
+/**
+ * 현재 워크북의 시트별 매핑/placeholder 규칙을 양식 설정으로 저장
+ * - 수동 지정이 없는 시트는 자동 탐지된 헤더 행을 식별용으로만 기록한다.
+ * - 동일 양식의 이전 설정은 덮어쓴다.
+ */
+export const saveTemplateSettings = (
+  sheetData: SheetData,
+  sheetMappings: Map<number, SheetColumnMapping>,
+  placeholderRules?: PlaceholderRules,
+  rowExclusionRules?: RowExclusionRules
+): TemplateSettings => {
+  const sheets = getTargetSheets(sheetData);
+  const savedSheets: SavedSheetSettings[] = [];
+
+  sheets.forEach((sheet, order) => {
+    const sheetIndex = sheet.sheetIndex ?? order;
+    const mapping = sheetMappings.get(sheetIndex);
+    const headerRow = mapping?.headerRow ?? detectNameHeader(sheet)?.headerRow;
+    if (headerRow === undefined) return;
+
+    savedSheets.push({
+      sheetIndex,
+      sheetName: sheet.name,
+      headerRow,
+      headerSignature: getHeaderSignature(sheet, headerRow),
+      ...(mapping ? { mapping } : {}),
+    });
+  });
+
+  if (savedSheets.length === 0) {
+    throw new Error('헤더 행을 찾을 수 있는 시트가 없어 양식 설정을 저장할 수 없습니다.');
+  }
+
+  const entry: TemplateSettings = {
+    savedAt: new Date().toISOString(),
+    sheets: savedSheets,
+    ...(placeholderRules ? { placeholderRules } : {}),
+    ...(rowExclusionRules ? { rowExclusionRules } : {}),
+  };
+
+  const others = readAllTemplateSettings().filter(existing => !isSameTemplate(existing.sheets, savedSheets));
+  writeAllTemplateSettings([entry, ...others]);
+  console.log(`[템플릿 설정] 저장 완료: ${savedSheets.length}개 시트`);
+  return entry;
+};
+
+/**
+ * 업로드된 워크북과 헤더 행 텍스트가 일치하는 저장 설정을 찾는다.
+ * - 최근 저장 순으로 검사하며, 저장된 모든 시트의 헤더가 일치해야 재사용한다.
+ */
+export const findTemplateSettings = (sheetData: SheetData): TemplateSettings | null => {
+  const sheets = getTargetSheets(sheetData);
+
+  for (const entry of readAllTemplateSettings()) {
+    if (!Array.isArray(entry.sheets) || entry.sheets.length === 0) continue;
+
+    const matches = entry.sheets.every(saved => {
+      const sheet = sheets.find((candidate, order) => (candidate.sheetIndex ?? order) === saved.sheetIndex);
+      return !!sheet && getHeaderSignature(sheet, saved.headerRow) === saved.headerSignature;
+    });
+
+    if (matches) {
+      return entry;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * 저장 설정을 autoMatch 옵션용 Map으로 변환
+ */
+export const toSheetMappings = (settings: TemplateSettings): Map<number, SheetColumnMapping> => {
+  const mappings = new Map<number, SheetColumnMapping>();
+  for (const saved of settings.sheets) {
+    if (saved.mapping) {
+      mappings.set(saved.sheetIndex, saved.mapping);
+    }
+  }
+  return mappings;
+};
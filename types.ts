@@ -4,18 +4,31 @@ export interface SignatureFile {
   previewUrl: string; // Changed from dataUrl: Use Blob URL for memory efficiency
   width: number;
   height: number;
+  sourceUrl?: string; // Original upload (Blob URL) when previewUrl holds a cleaned copy
+  backgroundThreshold?: number; // Luminance (0-255) above which paper background became transparent
+  qualityIssues?: SignatureQualityIssue[]; // Import-time scan checks (see signatureQualityService)
+  /**
+   * 동명이인 구분자 (사번 또는 소속/생년월일, normalizeQualifier로 정규화된 값)
+   * - 지정되면 서명 Map 키는 getSignatureKey(name, qualifier) 형식이 된다.
+   */
+  qualifier?: string;
 }
 
+export type SignatureQualityIssue = 'tooSmall' | 'mostlyEmpty' | 'noisy' | 'multipleBlobs' | 'tintedBackground';
+
 export interface CellData {
   value: string | number | null;
   address: string; // e.g., "A1"
   row: number;
   col: number;
+  fill?: string; // Solid pattern fill colour (ARGB), if any
+  strike?: boolean; // Font strikethrough (e.g. a resigned worker's name)
 }
 
 export interface RowData {
   index: number; // 1-based row index
   cells: CellData[];
+  hidden?: boolean; // Row hidden in Excel
 }
 
 export interface SheetData {
@@ -27,6 +40,51 @@ export interface SheetData {
   sheets?: SheetData[]; // Optional workbook-level sheet collection (first sheet remains primary)
 }
 
+/**
+ * Roster orientation of a sheet
+ * - vertical: one person per row under a name column (default)
+ * - transposed: names across the header row, sessions/dates down the rows
+ */
+export type RosterLayout = 'vertical' | 'transposed';
+
+export interface SheetColumnMapping {
+  headerRow: number; // 1-based row index of the header row
+  nameCol: number; // 1-based column index of the name column (transposed: first name column)
+  extraNameCols?: number[]; // Name columns of side-by-side roster blocks (auto-detected when omitted)
+  layout?: RosterLayout; // Defaults to 'vertical'
+  personRowSpan?: number; // Rows owned by one person in vertical rosters (name row + rows beneath, default 1)
+}
+
+/**
+ * User-defined signature placeholder rules (stored with the template settings)
+ * - literals: exact values after whitespace removal
+ * - patterns: regexes that must match the whole cell value
+ * - blankUnderSignatureHeader: empty cells under a header matching signatureHeaderPattern
+ * - fillColors: empty cells filled with one of these RGB hex colours
+ */
+export interface PlaceholderRules {
+  literals: string[];
+  patterns: string[];
+  blankUnderSignatureHeader: boolean;
+  signatureHeaderPattern: string;
+  fillColors: string[];
+}
+
+/**
+ * Roster row exclusion rules (stored with the template settings)
+ * - statusKeywords: rows whose status column (header matching statusHeaderPattern) contains one of these
+ * - strikethrough: rows whose name cell is struck through
+ * - fillColors: rows whose name cell is filled with one of these RGB hex colours
+ * - hiddenRows: rows hidden in Excel
+ */
+export interface RowExclusionRules {
+  statusKeywords: string[];
+  statusHeaderPattern: string;
+  strikethrough: boolean;
+  fillColors: string[];
+  hiddenRows: boolean;
+}
+
 export interface SignatureAssignment {
   row: number;
   col: number;
@@ -38,6 +96,26 @@ export interface SignatureAssignment {
   scale: number; // Percentage 1.15 to 1.35
   offsetX: number; // Pixels
   offsetY: number; // Pixels
+  matchConfidence?: number; // 0~1, set only when matched by fuzzy name similarity
+  locked?: boolean; // Approved placement kept unchanged by rematch and batch generation
+}
+
+export interface AssignmentLockScopes {
+  rows: Set<string>; // Locked rows "s{sheetIndex}:{row}" - rematch adds no new signatures there
+  persons: Set<string>; // Locked signature keys - rematch places them in no new cells
+}
+
+export interface AttendanceRecord {
+  name: string; // Name as written in the log
+  employeeId?: string;
+  date: string; // 'YYYY-MM-DD'
+}
+
+export interface AttendanceLog {
+  fileName: string;
+  records: AttendanceRecord[];
+  byName: Map<string, Set<string>>; // normalizeName(name) -> attended dates
+  byEmployeeId: Map<string, Set<string>>; // normalizeQualifier(employee ID) -> attended dates
 }
 
 export interface AppState {
@@ -47,4 +125,13 @@ export interface AppState {
   sheetData: SheetData | null;
   signatures: Map<string, SignatureFile[]>; // Map "HongGilDong" -> [File1, File2]
   assignments: Map<string, SignatureAssignment>; // Map "Row:Col" -> Assignment
+  nameAliases: Map<string, string>; // Confirmed fuzzy matches: sheet name -> signature base name
+  rejectedNameMatches: Set<string>; // Rejected fuzzy pairs "sheetName=>signatureBaseName"
+  sheetMappings: Map<number, SheetColumnMapping>; // Manual header/name column per sheetIndex
+  placeholderRules: PlaceholderRules; // Signature placeholder vocabulary for the current template
+  rowExclusionRules: RowExclusionRules; // Roster rows that must not be signed (resigned, absent, ...)
+  attendanceLog: AttendanceLog | null; // Optional imported attendance log restricting signed dates
+  matchSeed: string | null; // PRNG seed that produced the current assignments (recorded on export)
+  matchEdited: boolean; // Assignments changed by hand (or kept locked) since the seeded run, so the seed alone won't reproduce them
+  lockScopes: AssignmentLockScopes; // Row/person locks that also cover placeholders without a current assignment
 }
\ No newline at end of file